@@ -12,6 +12,7 @@ import { AppView, SettingSectionId, Scenario, WordEntry, PageWidgetConfig, WordI
 import { DEFAULT_STYLES, DEFAULT_ORIGINAL_TEXT_CONFIG, DEFAULT_WORD_INTERACTION, DEFAULT_PAGE_WIDGET, INITIAL_ENGINES, DEFAULT_ANKI_CONFIG, DEFAULT_AUTO_TRANSLATE, INITIAL_SCENARIOS, INITIAL_DICTIONARIES, DEFAULT_STYLE } from './constants';
 import { entriesStorage, scenariosStorage, pageWidgetConfigStorage, autoTranslateConfigStorage, enginesStorage, ankiConfigStorage, seedInitialData, stylesStorage, originalTextConfigStorage, interactionConfigStorage, dictionariesStorage } from './utils/storage';
 import { preloadVoices } from './utils/audio';
+import { withGlosses } from './utils/gloss';
 
 // --- Utility: Deep Merge for Config ---
 // Ensures that `source` merges into `target`.
@@ -158,7 +159,7 @@ const App: React.FC = () => {
     if (isLoading) return;
     const timer = setTimeout(() => {
         Promise.all([
-            entriesStorage.setValue(entries),
+            entriesStorage.setValue(entries.map(withGlosses)),
             scenariosStorage.setValue(scenarios),
             pageWidgetConfigStorage.setValue(pageWidgetConfig),
             autoTranslateConfigStorage.setValue(autoTranslate),
@@ -301,7 +302,7 @@ const App: React.FC = () => {
           {currentView === 'settings' && (
              <div className="space-y-12 animate-in fade-in duration-300">
                 <section id="general" className="scroll-mt-8">
-                  <GeneralSection config={autoTranslate} setConfig={setAutoTranslate} />
+                  <GeneralSection config={autoTranslate} setConfig={setAutoTranslate} engines={engines} />
                 </section>
 
                 <section id="visual-styles" className="scroll-mt-8">
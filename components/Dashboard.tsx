@@ -1,7 +1,10 @@
 
-import React, { useMemo, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { WordEntry, WordCategory, Scenario } from '../types';
-import { Activity, BookOpen, Clock, Zap, MapPin, Tag, CalendarDays, BarChart } from 'lucide-react';
+import { Activity, BookOpen, Clock, Zap, MapPin, Tag, CalendarDays, BarChart, Eye } from 'lucide-react';
+import { ExposureStats } from '../utils/exposure-store';
+import { formatExposureSummary } from '../utils/exposure';
+import { browser } from 'wxt/browser';
 
 interface DashboardProps {
   entries: WordEntry[];
@@ -133,6 +136,29 @@ const SourceBarChart = ({ data }: { data: { label: string, value: number, color:
 
 export const Dashboard: React.FC<DashboardProps> = ({ entries, scenarios = [] }) => {
   const [trendRange, setTrendRange] = useState<'daily' | 'weekly' | 'monthly'>('daily');
+  const [exposureStats, setExposureStats] = useState<Record<string, ExposureStats>>({});
+
+  useEffect(() => {
+      browser.runtime.sendMessage({ action: 'GET_EXPOSURE_STATS' })
+          .then((res: any) => res?.success && setExposureStats(res.data))
+          .catch(() => {});
+  }, []);
+
+  // 网页曝光：累计次数、覆盖网站及曝光最多的单词
+  const exposure = useMemo(() => {
+      const domains = new Set<string>();
+      let impressions = 0;
+      Object.values(exposureStats).forEach(s => {
+          impressions += s.impressions;
+          s.domains.forEach(d => domains.add(d));
+      });
+      const topWords = entries
+          .filter(e => exposureStats[e.id]?.impressions)
+          .map(e => ({ entry: e, stats: exposureStats[e.id] }))
+          .sort((a, b) => b.stats.impressions - a.stats.impressions)
+          .slice(0, 8);
+      return { impressions, domainCount: domains.size, topWords };
+  }, [entries, exposureStats]);
   
   // --- Data Processing ---
   const stats = useMemo(() => {
@@ -366,6 +392,32 @@ export const Dashboard: React.FC<DashboardProps> = ({ entries, scenarios = [] })
               </div>
           </div>
       </div>
+
+      {/* Exposure */}
+      <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-6">
+          <div className="flex justify-between items-center mb-4">
+              <h3 className="font-bold text-slate-800 flex items-center">
+                  <Eye className="w-4 h-4 mr-2 text-sky-500"/>
+                  网页曝光 (Exposure)
+              </h3>
+              <span className="text-xs text-slate-400">
+                  累计曝光 <span className="font-bold text-slate-600">{exposure.impressions}</span> 次，覆盖 <span className="font-bold text-slate-600">{exposure.domainCount}</span> 个网站
+              </span>
+          </div>
+          {exposure.topWords.length > 0 ? (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-2">
+                  {exposure.topWords.map(({ entry, stats }) => (
+                      <div key={entry.id} className="flex items-center gap-3 text-xs py-1.5 border-b border-slate-50">
+                          <span className="font-bold text-slate-800 w-28 truncate" title={entry.text}>{entry.text}</span>
+                          <span className="text-slate-400 w-20 truncate" title={entry.translation}>{entry.translation}</span>
+                          <span className="flex-1 text-right text-slate-500 truncate">{formatExposureSummary(stats)}</span>
+                      </div>
+                  ))}
+              </div>
+          ) : (
+              <div className="text-center text-slate-300 text-xs py-4">浏览网页时出现的单词会记录在这里</div>
+          )}
+      </div>
     </div>
   );
 };
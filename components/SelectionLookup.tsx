@@ -0,0 +1,144 @@
+import React, { useEffect, useState, useRef } from 'react';
+import { RichDictionaryResult, DictionaryMeaningCard, LearningLanguage } from '../types';
+import { Search, Volume2, X, Loader2, Check, Plus } from 'lucide-react';
+import { fetchRichWordDetails } from '../utils/dictionary-service';
+import { playWordAudio, stopAudio } from '../utils/audio';
+import { SelectionContext } from '../utils/selection-context';
+
+const FONT_FAMILY = 'ui-sans-serif, system-ui, -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, "Helvetica Neue", Arial, sans-serif';
+
+interface SelectionLookupButtonProps {
+  targetRect: DOMRect;
+  onClick: () => void;
+}
+
+/**
+ * 划词后出现在选区右上方的查词按钮
+ */
+export const SelectionLookupButton: React.FC<SelectionLookupButtonProps> = ({ targetRect, onClick }) => {
+  const style: React.CSSProperties = { position: 'fixed', zIndex: 2147483647, top: Math.max(8, targetRect.top - 34), left: Math.min(window.innerWidth - 36, targetRect.right + 4), width: '28px', height: '28px', display: 'flex', alignItems: 'center', justifyContent: 'center', borderRadius: '9999px', border: '1px solid #e2e8f0', backgroundColor: '#ffffff', color: '#2563eb', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)', cursor: 'pointer', pointerEvents: 'auto', padding: 0 };
+  return (
+    // mousedown 阻止默认行为，避免点击按钮时选区被清除
+    <button style={style} onMouseDown={e => e.preventDefault()} onClick={onClick} title="查词并添加到 Re-Word">
+        <Search size={14} />
+    </button>
+  );
+};
+
+interface SelectionLookupProps {
+  context: SelectionContext;
+  targetRect: DOMRect;
+  language: LearningLanguage;
+  accent: 'US' | 'UK';
+  onSave: (result: RichDictionaryResult, cards: DictionaryMeaningCard[]) => Promise<void>;
+  onClose: () => void;
+}
+
+/**
+ * 划词查词面板：展示释义卡片，勾选后连同上下文添加到词库
+ */
+export const SelectionLookup: React.FC<SelectionLookupProps> = ({ context, targetRect, language, accent, onSave, onClose }) => {
+  const [result, setResult] = useState<RichDictionaryResult | null>(null);
+  const [selected, setSelected] = useState<Set<number>>(new Set([0]));
+  const [error, setError] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [isSaved, setIsSaved] = useState(false);
+  const panelRef = useRef<HTMLDivElement>(null);
+  const [position, setPosition] = useState<{ top: number; left: number } | null>(null);
+
+  useEffect(() => {
+      let cancelled = false;
+      setResult(null);
+      setError('');
+      setIsSaved(false);
+      setSelected(new Set([0]));
+      fetchRichWordDetails(context.text, language)
+          .then(data => { if (!cancelled) setResult(data); })
+          .catch((e: any) => { if (!cancelled) setError(e.message || '查词失败'); });
+      return () => { cancelled = true; stopAudio(); };
+  }, [context.text, language]);
+
+  // 面板优先显示在选区下方，空间不足时显示在上方
+  useEffect(() => {
+      if (!panelRef.current) return;
+      const rect = panelRef.current.getBoundingClientRect();
+      const gap = 10;
+      let top = targetRect.bottom + gap;
+      if (top + rect.height > window.innerHeight - 10 && targetRect.top - gap - rect.height > 10) top = targetRect.top - gap - rect.height;
+      const left = Math.min(Math.max(10, targetRect.left), window.innerWidth - rect.width - 10);
+      setPosition({ top: Math.max(10, top), left });
+  }, [targetRect, result, error]);
+
+  const toggleCard = (index: number) => {
+      setSelected(prev => {
+          const next = new Set(prev);
+          if (next.has(index)) next.delete(index); else next.add(index);
+          return next;
+      });
+  };
+
+  const handleSave = async () => {
+      if (!result || selected.size === 0) return;
+      setIsSaving(true);
+      try {
+          await onSave(result, result.meanings.filter((_, i) => selected.has(i)));
+          setIsSaved(true);
+          setTimeout(onClose, 800);
+      } catch (e: any) {
+          setError(e.message || '保存失败');
+      } finally {
+          setIsSaving(false);
+      }
+  };
+
+  const containerStyle: React.CSSProperties = { position: 'fixed', zIndex: 2147483647, backgroundColor: '#ffffff', borderRadius: '12px', boxShadow: '0 20px 25px -5px rgb(0 0 0 / 0.1), 0 8px 10px -6px rgb(0 0 0 / 0.1)', border: '1px solid #e2e8f0', padding: '16px', width: '320px', maxHeight: '420px', display: 'flex', flexDirection: 'column', boxSizing: 'border-box', top: position?.top ?? -9999, left: position?.left ?? -9999, opacity: position ? 1 : 0, transition: 'opacity 0.15s ease-out', pointerEvents: 'auto', fontFamily: FONT_FAMILY, fontSize: '14px', lineHeight: '1.5', color: '#0f172a', textAlign: 'left' };
+  const headerStyle: React.CSSProperties = { display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', marginBottom: '10px' };
+  const iconBtnStyle: React.CSSProperties = { display: 'flex', alignItems: 'center', justifyContent: 'center', padding: '4px', borderRadius: '9999px', border: 'none', background: 'transparent', cursor: 'pointer', color: '#94a3b8' };
+  const cardStyle = (active: boolean): React.CSSProperties => ({ display: 'flex', gap: '8px', alignItems: 'flex-start', padding: '8px 10px', borderRadius: '8px', border: `1px solid ${active ? '#93c5fd' : '#e2e8f0'}`, backgroundColor: active ? '#eff6ff' : '#ffffff', cursor: 'pointer', marginBottom: '6px', fontSize: '13px', color: '#334155' });
+  const contextStyle: React.CSSProperties = { fontSize: '12px', fontStyle: 'italic', color: '#64748b', borderLeft: '3px solid #cbd5e1', paddingLeft: '10px', margin: '8px 0', maxHeight: '54px', overflow: 'hidden' };
+  const saveBtnStyle: React.CSSProperties = { display: 'flex', alignItems: 'center', justifyContent: 'center', gap: '6px', marginTop: '8px', padding: '8px 12px', borderRadius: '8px', border: 'none', backgroundColor: isSaved ? '#16a34a' : '#2563eb', color: '#ffffff', fontSize: '13px', fontWeight: 600, cursor: selected.size === 0 || isSaving ? 'not-allowed' : 'pointer', opacity: selected.size === 0 ? 0.5 : 1 };
+
+  return (
+    <div ref={panelRef} style={containerStyle}>
+        <div style={headerStyle}>
+            <div>
+                <div style={{ fontSize: '18px', fontWeight: 700, lineHeight: 1.2 }}>{result?.text || context.text}</div>
+                {result && (result.phoneticUs || result.phoneticUk) && (
+                    <span style={{ fontSize: '12px', fontFamily: 'ui-monospace, SFMono-Regular, Menlo, monospace', color: '#94a3b8' }}>{result.phoneticUs || result.phoneticUk}</span>
+                )}
+            </div>
+            <div style={{ display: 'flex', gap: '4px' }}>
+                <button style={iconBtnStyle} onClick={() => playWordAudio(result?.text || context.text, accent, 1.0, language)} title="播放发音"><Volume2 size={16} /></button>
+                <button style={iconBtnStyle} onClick={onClose} title="关闭"><X size={16} /></button>
+            </div>
+        </div>
+
+        {context.sentence && <div style={contextStyle}>{context.sentence}</div>}
+
+        <div style={{ overflowY: 'auto', flex: 1 }}>
+            {!result && !error && (
+                <div style={{ display: 'flex', alignItems: 'center', gap: '6px', color: '#94a3b8', fontSize: '13px', padding: '12px 0' }}>
+                    <Loader2 size={14} className="animate-spin" /> 正在查询...
+                </div>
+            )}
+            {error && <div style={{ color: '#ef4444', fontSize: '13px', padding: '8px 0' }}>{error}</div>}
+            {result?.meanings.map((card, index) => (
+                <div key={index} style={cardStyle(selected.has(index))} onClick={() => toggleCard(index)}>
+                    <span style={{ color: selected.has(index) ? '#2563eb' : '#cbd5e1', marginTop: '2px' }}>{selected.has(index) ? <Check size={14} /> : <Plus size={14} />}</span>
+                    <div>
+                        {card.partOfSpeech && <span style={{ fontSize: '11px', fontWeight: 700, color: '#94a3b8', marginRight: '6px' }}>{card.partOfSpeech}</span>}
+                        <span>{card.defCn}</span>
+                    </div>
+                </div>
+            ))}
+        </div>
+
+        {result && result.meanings.length > 0 && (
+            <button style={saveBtnStyle} disabled={selected.size === 0 || isSaving || isSaved} onClick={handleSave}>
+                {isSaving ? <Loader2 size={14} className="animate-spin" /> : isSaved ? <Check size={14} /> : <Plus size={14} />}
+                {isSaved ? '已添加' : `添加 ${selected.size} 个释义到正在学`}
+            </button>
+        )}
+    </div>
+  );
+};
@@ -1,8 +1,9 @@
 
 import React, { useState } from 'react';
-import { WordCategory, StyleConfig, OriginalTextConfig, LayoutSpecificConfig } from '../types';
-import { Bold, Italic, MoveHorizontal, MoveVertical, AlignEndHorizontal, Percent, Hash, Info, AlignVerticalJustifyCenter } from 'lucide-react';
+import { WordCategory, StyleConfig, OriginalTextConfig, LayoutSpecificConfig, DensityStrategy } from '../types';
+import { Bold, Italic, MoveHorizontal, MoveVertical, AlignEndHorizontal, Percent, Hash, Info, AlignVerticalJustifyCenter, ListOrdered, AlignHorizontalSpaceAround, Shuffle, Star } from 'lucide-react';
 import { VisualStyle } from '../utils/style-helper';
+import { DENSITY_STRATEGY_LABELS } from '../utils/density';
 
 const Tooltip: React.FC<{ text: string; children: React.ReactNode }> = ({ text, children }) => {
   return (
@@ -568,6 +569,32 @@ export const VisualStylesSection: React.FC<VisualStylesSectionProps> = ({ styles
                       </div>
                   </div>
               </div>
+
+              {/* Distribution Strategy */}
+              <div className="mt-4 flex flex-col md:flex-row md:items-center gap-4">
+                  <div className="flex items-center gap-2 shrink-0">
+                      <span className="text-xs font-bold text-slate-500">保留策略</span>
+                      <Tooltip text="匹配数超过密度上限时，决定保留段落中的哪些单词。">
+                          <Info className="w-3.5 h-3.5 text-slate-400 cursor-help" />
+                      </Tooltip>
+                  </div>
+                  <div className="flex flex-wrap bg-white p-1 rounded-lg border border-slate-200 shadow-sm">
+                      {([
+                          { id: 'first', icon: ListOrdered },
+                          { id: 'spread', icon: AlignHorizontalSpaceAround },
+                          { id: 'random', icon: Shuffle },
+                          { id: 'importance', icon: Star },
+                      ] as { id: DensityStrategy, icon: any }[]).map(({ id, icon: Icon }) => (
+                          <button
+                             key={id}
+                             onClick={() => updateTranslationStyle('densityStrategy', id)}
+                             className={`flex items-center px-3 py-1.5 rounded-md text-xs transition-all ${(currentTranslationStyle.densityStrategy || 'first') === id ? 'bg-blue-50 text-blue-600 font-bold' : 'text-slate-500 hover:bg-slate-50'}`}
+                          >
+                             <Icon className="w-3.5 h-3.5 mr-1.5" /> {DENSITY_STRATEGY_LABELS[id]}
+                          </button>
+                      ))}
+                  </div>
+              </div>
            </div>
       </div>
     </section>
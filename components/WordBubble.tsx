@@ -1,6 +1,6 @@
 import React, { useEffect, useState, useRef } from 'react';
 import { WordEntry, WordInteractionConfig, WordCategory } from '../types';
-import { Volume2, Plus, Check, ExternalLink, BookOpen } from 'lucide-react';
+import { Volume2, Plus, Check, ExternalLink, BookOpen, Pencil, Bookmark, EyeOff, Trash2, GraduationCap } from 'lucide-react';
 import { playWordAudio, playSentenceAudio, stopAudio } from '../utils/audio';
 import { browser } from 'wxt/browser';
 
@@ -13,6 +13,11 @@ interface WordBubbleProps {
   onMouseEnter: () => void;
   onMouseLeave: () => void;
   onAddWord: (id: string) => void;
+  onChangeCategory?: (id: string, category: WordCategory) => void;
+  onUpdateTranslation?: (id: string, translation: string) => void;
+  onHideOnSite?: (id: string) => void;
+  onDeleteEntry?: (id: string) => void;
+  onPronounce?: (id: string) => void; // 播放单词发音 (自动或手动) 时回调，用于曝光统计
   ttsSpeed?: number;
 }
 
@@ -25,6 +30,11 @@ export const WordBubble: React.FC<WordBubbleProps> = ({
     onMouseEnter, 
     onMouseLeave, 
     onAddWord,
+    onChangeCategory,
+    onUpdateTranslation,
+    onHideOnSite,
+    onDeleteEntry,
+    onPronounce,
     ttsSpeed = 1.0
 }) => {
   const [position, setPosition] = useState<{ top: number; left: number } | null>(null);
@@ -32,6 +42,9 @@ export const WordBubble: React.FC<WordBubbleProps> = ({
   const bubbleRef = useRef<HTMLDivElement>(null);
   const [isAdded, setIsAdded] = useState(false);
   const hasAutoPlayedRef = useRef(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [draftTranslation, setDraftTranslation] = useState('');
+  const [confirmDelete, setConfirmDelete] = useState(false);
 
   useEffect(() => {
     if (entry) {
@@ -40,8 +53,10 @@ export const WordBubble: React.FC<WordBubbleProps> = ({
   }, [entry]);
 
   useEffect(() => {
-      // 当单词 ID 改变时，重置自动播放状态
+      // 当单词 ID 改变时，重置自动播放状态及编辑状态
       hasAutoPlayedRef.current = false;
+      setIsEditing(false);
+      setConfirmDelete(false);
   }, [entry?.id]);
 
   useEffect(() => {
@@ -60,6 +75,8 @@ export const WordBubble: React.FC<WordBubbleProps> = ({
           hasAutoPlayedRef.current = true; // 立即标记，防止在异步循环中重复触发
           
           const wordToPlay = entry.text; // 闭包捕获
+          const language = entry.language;
+          onPronounce?.(entry.id);
           
           (async () => {
              for(let i = 0; i < config.autoPronounceCount; i++) {
@@ -67,7 +84,7 @@ export const WordBubble: React.FC<WordBubbleProps> = ({
                  if (!isMounted || !isVisible) break;
                  
                  // 调用封装好的智能朗读函数
-                 await playWordAudio(wordToPlay, config.autoPronounceAccent, ttsSpeed);
+                 await playWordAudio(wordToPlay, config.autoPronounceAccent, ttsSpeed, language);
                  
                  // 朗读间隔
                  if (i < config.autoPronounceCount - 1 && isMounted && isVisible) {
@@ -91,11 +108,44 @@ export const WordBubble: React.FC<WordBubbleProps> = ({
     e.stopPropagation();
     if (!entry) return;
     // 点击喇叭图标同样执行智能朗读逻辑
-    playWordAudio(entry.text, config.autoPronounceAccent, ttsSpeed);
+    onPronounce?.(entry.id);
+    playWordAudio(entry.text, config.autoPronounceAccent, ttsSpeed, entry.language);
+  };
+
+  const startEditing = (e: React.MouseEvent) => {
+      e.stopPropagation();
+      if (!entry) return;
+      setDraftTranslation(entry.translation || '');
+      setIsEditing(true);
+  };
+
+  const saveTranslation = () => {
+      if (!entry) return;
+      const value = draftTranslation.trim();
+      if (value && value !== entry.translation) onUpdateTranslation?.(entry.id, value);
+      setIsEditing(false);
+  };
+
+  const changeCategory = (e: React.MouseEvent, category: WordCategory) => {
+      e.stopPropagation();
+      if (!entry || entry.category === category) return;
+      onChangeCategory?.(entry.id, category);
+      setIsAdded(category !== WordCategory.WantToLearnWord);
+  };
+
+  // 删除需再次点击确认，避免误删
+  const handleDelete = (e: React.MouseEvent) => {
+      e.stopPropagation();
+      if (!entry) return;
+      if (!confirmDelete) {
+          setConfirmDelete(true);
+          return;
+      }
+      onDeleteEntry?.(entry.id);
   };
 
   const playSentence = (text: string) => {
-     playSentenceAudio(text, undefined, config.autoPronounceAccent, ttsSpeed);
+     playSentenceAudio(text, undefined, config.autoPronounceAccent, ttsSpeed, entry?.language);
   };
 
   // 跳转到详情页
@@ -176,11 +226,15 @@ export const WordBubble: React.FC<WordBubbleProps> = ({
   const exampleStyle: React.CSSProperties = { fontSize: '12px', fontStyle: 'italic', color: '#475569', borderLeft: '3px solid #60a5fa', paddingLeft: '12px', marginTop: '4px', lineHeight: '1.5', cursor: 'pointer' };
   const linkContainerStyle: React.CSSProperties = { marginTop: '12px', paddingTop: '10px', borderTop: '1px solid #f1f5f9', fontSize: '11px', lineHeight: '1.4', display: 'flex', gap: '12px' };
   const linkStyle: React.CSSProperties = { display: 'flex', alignItems: 'center', color: '#64748b', textDecoration: 'none', transition: 'color 0.2s', cursor: 'pointer' };
+  const editBtnStyle: React.CSSProperties = { ...btnStyle, padding: '2px', marginLeft: '6px', verticalAlign: 'middle', display: 'inline-flex' };
+  const editInputStyle: React.CSSProperties = { width: '100%', boxSizing: 'border-box', fontSize: '14px', padding: '4px 8px', border: '1px solid #93c5fd', borderRadius: '6px', outline: 'none', marginBottom: '12px', fontFamily: 'inherit', color: '#0f172a', backgroundColor: '#ffffff' };
+  const actionBarStyle: React.CSSProperties = { display: 'flex', gap: '6px', flexWrap: 'wrap', marginTop: '12px' };
+  const actionBtnStyle = (active: boolean, color: string): React.CSSProperties => ({ display: 'flex', alignItems: 'center', gap: '4px', padding: '3px 8px', fontSize: '11px', lineHeight: '1.4', borderRadius: '9999px', border: `1px solid ${active ? color : '#e2e8f0'}`, backgroundColor: active ? color : '#ffffff', color: active ? '#ffffff' : '#64748b', cursor: 'pointer', fontFamily: 'inherit' });
 
   const dictUrl = config.onlineDictUrl ? config.onlineDictUrl.replace(/{word}/g, entry.text) : '';
 
   return (
-    <div ref={bubbleRef} onMouseEnter={onMouseEnter} onMouseLeave={onMouseLeave} style={containerStyle}>
+    <div ref={bubbleRef} onMouseEnter={onMouseEnter} onMouseLeave={() => { if (!isEditing) onMouseLeave(); }} style={containerStyle}>
         <div style={arrowStyle}></div>
         <div style={headerStyle}>
             <div>
@@ -202,13 +256,37 @@ export const WordBubble: React.FC<WordBubbleProps> = ({
                 <button onClick={handleAdd} style={addBtnStyle} title={isAdded ? "已添加" : "添加到正在学"}>{isAdded ? <Check size={18} /> : <Plus size={18} />}</button>
             </div>
         </div>
-        {config.showDictTranslation && (<div style={meaningStyle}>{entry.translation}</div>)}
+        {isEditing ? (
+            <input
+                autoFocus
+                value={draftTranslation}
+                onChange={e => setDraftTranslation(e.target.value)}
+                onKeyDown={e => { e.stopPropagation(); if (e.key === 'Enter') saveTranslation(); if (e.key === 'Escape') setIsEditing(false); }}
+                onBlur={saveTranslation}
+                placeholder="中文释义"
+                style={editInputStyle}
+            />
+        ) : config.showDictTranslation && (
+            <div style={meaningStyle}>
+                {entry.translation}
+                {onUpdateTranslation && <button onClick={startEditing} style={editBtnStyle} title="编辑释义"><Pencil size={12} /></button>}
+            </div>
+        )}
         {config.showOriginalText && (<div style={originalBoxStyle}><span style={{ marginRight: '8px', color: '#94a3b8', userSelect: 'none' }}>原文:</span><span style={{ fontWeight: '500' }}>{originalText || '...'}</span></div>)}
         {config.showDictExample && entry.dictionaryExample && (
             <div style={exampleStyle} onClick={() => playSentence(entry.dictionaryExample!)} title="点击朗读例句">
                 {entry.dictionaryExample}
             </div>
         )}
+
+        {onChangeCategory && (
+            <div style={actionBarStyle}>
+                <button onClick={e => changeCategory(e, WordCategory.KnownWord)} style={actionBtnStyle(entry.category === WordCategory.KnownWord, '#16a34a')} title="标记为已掌握"><GraduationCap size={12} /> 已掌握</button>
+                <button onClick={e => changeCategory(e, WordCategory.WantToLearnWord)} style={actionBtnStyle(entry.category === WordCategory.WantToLearnWord, '#d97706')} title="移到想学习"><Bookmark size={12} /> 想学习</button>
+                {onHideOnSite && <button onClick={e => { e.stopPropagation(); onHideOnSite(entry.id); }} style={actionBtnStyle(false, '#64748b')} title="在当前网站不再替换此单词"><EyeOff size={12} /> 本站隐藏</button>}
+                {onDeleteEntry && <button onClick={handleDelete} onMouseLeave={() => setConfirmDelete(false)} style={actionBtnStyle(confirmDelete, '#dc2626')} title="从词库删除"><Trash2 size={12} /> {confirmDelete ? '确认删除' : '删除'}</button>}
+            </div>
+        )}
         
         <div style={linkContainerStyle}>
             <div 
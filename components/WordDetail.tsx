@@ -1,7 +1,8 @@
 
 import React, { useEffect, useState, useRef, useMemo } from 'react';
-import { ArrowLeft, BookOpen, Star, Layers, Share2, Quote, GitBranch, Globe, Loader2, History, Split, Hash, Image as ImageIcon, Youtube, Music, Tv, FileQuestion, Network, Volume2, Briefcase, GripVertical } from 'lucide-react';
+import { ArrowLeft, BookOpen, Star, Layers, Share2, Quote, GitBranch, Globe, Loader2, History, Split, Hash, Image as ImageIcon, Youtube, Music, Tv, FileQuestion, Network, Volume2, Briefcase, GripVertical, MapPin, Eye, RefreshCw } from 'lucide-react';
 import { YoudaoResponse } from '../types/youdao';
+import { WordEntry } from '../types';
 import { BasicInfo } from './word-detail/BasicInfo';
 import { ImageGallery } from './word-detail/ImageGallery';
 import { ExpandEcSection } from './word-detail/ExpandEcSection';
@@ -12,8 +13,12 @@ import { PhrasesSection, SynonymsSection, DiscrimSection, RootsSection, EtymSect
 import { BilingualSentencesSection, MediaSentencesSection } from './word-detail/SentenceSection';
 import { WebTransSection, ExamsSection, WikiSection } from './word-detail/WebSection';
 import { SpecialSection } from './word-detail/SpecialSection';
-import { interactionConfigStorage } from '../utils/storage';
+import { SourcesSection } from './word-detail/SourcesSection';
+import { interactionConfigStorage, entriesStorage } from '../utils/storage';
 import { DEFAULT_WORD_INTERACTION } from '../constants';
+import { ExposureStats } from '../utils/exposure-store';
+import { mergeExposureStats, formatExposureSummary } from '../utils/exposure';
+import { browser } from 'wxt/browser';
 
 interface WordDetailProps {
   word: string;
@@ -23,6 +28,7 @@ interface WordDetailProps {
 // --- Navigation Config (Default Order) ---
 const DEFAULT_SECTIONS = [
   { id: 'basic', label: '基础释义', icon: Hash },
+  { id: 'my_sources', label: '我的来源', icon: MapPin },
   { id: 'images', label: '单词配图', icon: ImageIcon },
   { id: 'expand_ec', label: '扩展释义', icon: BookOpen },
   { id: 'special', label: '专业释义', icon: Briefcase },
@@ -48,6 +54,7 @@ export const WordDetail: React.FC<WordDetailProps> = ({ word, onBack }) => {
   const [data, setData] = useState<YoudaoResponse | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
+  const [reloadToken, setReloadToken] = useState(0); // 大于 0 时跳过词典缓存重新请求
   const [activeSection, setActiveSection] = useState('basic');
   
   // Navigation Order State
@@ -57,6 +64,10 @@ export const WordDetail: React.FC<WordDetailProps> = ({ word, onBack }) => {
   // Interaction Config for Web Link
   const [interactionConfig, setInteractionConfig] = useState(DEFAULT_WORD_INTERACTION);
 
+  // 词库中该单词的词条 (来源语境与视频时间点)
+  const [myEntries, setMyEntries] = useState<WordEntry[]>([]);
+  const [exposure, setExposure] = useState<ExposureStats | null>(null);
+
   // Intersection Observer
   const observer = useRef<IntersectionObserver | null>(null);
 
@@ -87,10 +98,10 @@ export const WordDetail: React.FC<WordDetailProps> = ({ word, onBack }) => {
       setLoading(true);
       setError('');
       try {
-        const res = await fetch(`https://dict.youdao.com/jsonapi?q=${encodeURIComponent(word)}`);
-        if (!res.ok) throw new Error('API request failed');
-        const json = await res.json();
-        setData(json);
+        // 经 Background 词典缓存查询，查过的单词离线也能打开
+        const response = await browser.runtime.sendMessage({ action: 'LOOKUP_WORD_RAW', text: word, forceRefresh: reloadToken > 0 }) as any;
+        if (!response?.success) throw new Error(response?.error || 'API request failed');
+        setData(response.data);
       } catch (err) {
         console.error(err);
         setError('无法加载词典数据，请检查网络连接。');
@@ -100,8 +111,21 @@ export const WordDetail: React.FC<WordDetailProps> = ({ word, onBack }) => {
     };
 
     if (word) fetchData();
+  }, [word, reloadToken]);
+
+  useEffect(() => {
+      const lower = word.toLowerCase();
+      entriesStorage.getValue().then(entries => setMyEntries(entries.filter(e => e.text.toLowerCase() === lower)));
   }, [word]);
 
+  // 网页浏览中的曝光统计 (同一单词的多个词条合并计算)
+  useEffect(() => {
+      if (myEntries.length === 0) { setExposure(null); return; }
+      browser.runtime.sendMessage({ action: 'GET_EXPOSURE_STATS', entryIds: myEntries.map(e => e.id) })
+          .then((res: any) => setExposure(res?.success ? mergeExposureStats(Object.values(res.data as Record<string, ExposureStats>)) : null))
+          .catch(() => setExposure(null));
+  }, [myEntries]);
+
   // Compute Web URL
   const webUrl = useMemo(() => {
       if (interactionConfig.onlineDictUrl) {
@@ -134,6 +158,7 @@ export const WordDetail: React.FC<WordDetailProps> = ({ word, onBack }) => {
           case 'web_trans': return (data.web_trans?.["web-translation"]?.length || (data.web_trans as any)?.["web_translation"]?.length || 0) > 0;
           case 'wiki': return (data.wikipedia_digest?.summarys?.length || 0) > 0;
           case 'discrim': return (data.discrim?.discrims?.length || 0) > 0;
+          case 'my_sources': return myEntries.some(e => e.sourceUrl || e.contextSentence);
           default: return false;
       }
   };
@@ -141,7 +166,7 @@ export const WordDetail: React.FC<WordDetailProps> = ({ word, onBack }) => {
   // Only show sections that have data
   const activeSectionsList = useMemo(() => {
       return navItems.filter(s => hasData(s.id));
-  }, [navItems, data]);
+  }, [navItems, data, myEntries]);
 
   // Render Mapping Logic
   const renderSectionContent = (id: string) => {
@@ -167,6 +192,7 @@ export const WordDetail: React.FC<WordDetailProps> = ({ word, onBack }) => {
           case 'exams': return <ExamsSection individual={data.individual} />;
           case 'web_trans': return <WebTransSection webTrans={data.web_trans} />;
           case 'wiki': return <WikiSection wiki={data.wikipedia_digest} />;
+          case 'my_sources': return <SourcesSection entries={myEntries} />;
           default: return null;
       }
   };
@@ -267,6 +293,14 @@ export const WordDetail: React.FC<WordDetailProps> = ({ word, onBack }) => {
           </button>
           <h1 className="text-xl font-bold text-slate-800 capitalize truncate font-serif">{word}</h1>
           <div className="ml-auto flex items-center gap-3">
+              {exposure && (
+                  <span className="hidden md:flex items-center text-xs text-slate-500 bg-slate-50 px-3 py-1.5 rounded-full border border-slate-200" title={`悬停查看 ${exposure.hovers} 次 · 播放发音 ${exposure.pronunciations} 次 · 快速添加 ${exposure.quickAdds} 次`}>
+                      <Eye className="w-3.5 h-3.5 mr-1.5 text-slate-400" /> {formatExposureSummary(exposure)}
+                  </span>
+              )}
+              <button onClick={() => setReloadToken(t => t + 1)} disabled={loading} className="p-1.5 text-slate-400 hover:text-blue-600 hover:bg-blue-50 rounded-full transition disabled:opacity-50" title="重新获取词典数据 (忽略缓存)">
+                  <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+              </button>
               <a href={webUrl} target="_blank" rel="noreferrer" className="text-xs text-blue-600 font-medium hover:underline flex items-center bg-blue-50 px-3 py-1.5 rounded-full border border-blue-100 transition">
                   <Globe className="w-3.5 h-3.5 mr-1.5" /> 网页版
               </a>
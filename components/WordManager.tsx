@@ -8,6 +8,7 @@ import { AddWordModal } from './word-manager/AddWordModal';
 import { WordList } from './word-manager/WordList';
 import { Toast, ToastMessage } from './ui/Toast';
 import { entriesStorage } from '../utils/storage';
+import { withGlosses } from '../utils/gloss';
 import { browser } from 'wxt/browser';
 
 const Tooltip: React.FC<{ text: string; children: React.ReactNode }> = ({ text, children }) => {
@@ -286,6 +287,25 @@ export const WordManager: React.FC<WordManagerProps> = ({
     }
   };
 
+  const handleUnhideSite = (entryId: string, site: string) => {
+      setEntries(prev => prev.map(e => e.id === entryId ? { ...e, hiddenSites: (e.hiddenSites || []).filter(s => s !== site) } : e));
+      showToast(`已恢复在 ${site} 替换`, 'success');
+  };
+
+  // 传入 undefined 时恢复为由释义自动生成
+  const handleUpdateGlosses = (entryId: string, glosses: string[] | undefined) => {
+      setEntries(prev => prev.map(e => {
+          if (e.id !== entryId) return e;
+          return glosses ? { ...e, glosses, glossSource: e.translation || '' } : withGlosses({ ...e, glosses: undefined });
+      }));
+      showToast(glosses ? '匹配释义已更新' : '已恢复自动生成的匹配释义', 'success');
+  };
+
+  const handleToggleSubstringMatch = (entryIds: string[], allow: boolean) => {
+      setEntries(prev => prev.map(e => entryIds.includes(e.id) ? { ...e, allowSubstringMatch: allow || undefined } : e));
+      showToast(allow ? '已允许子串匹配' : '已恢复按分词边界匹配', 'success');
+  };
+
   const handleBatchMove = (targetCategory: WordCategory) => {
       if (selectedWords.size === 0) return;
       const newEntries = entries.map(e => {
@@ -467,6 +487,7 @@ export const WordManager: React.FC<WordManagerProps> = ({
           const newEntry: WordEntry = {
               id: `manual-${Date.now()}-${Math.random().toString(36).substr(2, 5)}`,
               text: entryData.text!,
+              language: entryData.language,
               translation: entryData.translation,
               englishDefinition: entryData.englishDefinition,
               phoneticUs: entryData.phoneticUs,
@@ -754,6 +775,9 @@ export const WordManager: React.FC<WordManagerProps> = ({
            searchQuery={searchQuery}
            ttsSpeed={ttsSpeed}
            onOpenDetail={onOpenDetail} 
+           onUnhideSite={handleUnhideSite}
+           onToggleSubstringMatch={handleToggleSubstringMatch}
+           onUpdateGlosses={handleUpdateGlosses}
         />
       </div>
     </div>
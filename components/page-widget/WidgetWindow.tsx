@@ -1,6 +1,7 @@
 import React from 'react';
 import { PageWidgetConfig, WordTab, WordCategory, WordEntry } from '../../types';
 import { X, Settings2, CheckSquare, Square, GripVertical, Download, ExternalLink, PlayCircle, Filter, Star, BarChart2 } from 'lucide-react';
+import { buildTimestampUrl, formatTimestamp } from '../../utils/subtitles';
 import { playWordAudio } from '../../utils/audio';
 
 interface WidgetWindowProps {
@@ -227,12 +228,12 @@ export const WidgetWindow: React.FC<WidgetWindowProps> = ({
                                             {config.showPhonetic && (word.phoneticUs || word.phoneticUk) && (
                                                 <div className="flex items-center text-xs text-slate-500 bg-slate-100 px-2 py-0.5 rounded border border-slate-200 font-mono">
                                                     {word.phoneticUs && (
-                                                        <span className="flex items-center cursor-pointer hover:text-blue-600 transition select-none mr-2" onClick={(e) => { e.stopPropagation(); playWordAudio(word.text, 'US'); }}>
+                                                        <span className="flex items-center cursor-pointer hover:text-blue-600 transition select-none mr-2" onClick={(e) => { e.stopPropagation(); playWordAudio(word.text, 'US', 1.0, word.language); }}>
                                                             <span className="text-[10px] text-slate-400 mr-1 font-sans">US</span> {word.phoneticUs} <PlayCircle className="w-3 h-3 ml-1.5 opacity-50 hover:opacity-100"/>
                                                         </span>
                                                     )}
                                                     {word.phoneticUk && (
-                                                        <span className="flex items-center cursor-pointer hover:text-blue-600 transition select-none" onClick={(e) => { e.stopPropagation(); playWordAudio(word.text, 'UK'); }}>
+                                                        <span className="flex items-center cursor-pointer hover:text-blue-600 transition select-none" onClick={(e) => { e.stopPropagation(); playWordAudio(word.text, 'UK', 1.0, word.language); }}>
                                                             <span className="text-[10px] text-slate-400 mr-1 font-sans">UK</span> {word.phoneticUk} <PlayCircle className="w-3 h-3 ml-1.5 opacity-50 hover:opacity-100"/>
                                                         </span>
                                                     )}
@@ -277,16 +278,18 @@ export const WidgetWindow: React.FC<WidgetWindowProps> = ({
                                     {config.cardDisplay.map(item => {
                                         if(!item.enabled) return null;
                                         if(item.id === 'context' && word.contextSentence) return (
-                                            <div key="ctx" className="bg-slate-50 p-3 rounded-lg border border-slate-100 relative group/line">
+                                            <div key="ctx" className={`bg-slate-50 p-3 rounded-lg border border-slate-100 relative group/line ${word.sourceUrl ? 'cursor-pointer' : ''}`} onClick={() => word.sourceUrl && window.open(buildTimestampUrl(word.sourceUrl, word.sourceTimestamp), '_blank', 'noopener')}>
                                                 <div className="absolute left-0 top-3 bottom-3 w-1 bg-blue-500 rounded-r"></div>
                                                 <span className="text-[10px] font-bold text-slate-400 uppercase block mb-1.5 pl-3 select-none">来源原句 (Context)</span>
                                                 <p className="text-sm text-slate-700 leading-relaxed pl-3 font-medium">{word.contextSentence}</p>
                                                 {config.showContextTranslation && word.contextSentenceTranslation && (
                                                     <p className="text-xs text-slate-500 pl-3 mt-1">{word.contextSentenceTranslation}</p>
                                                 )}
-                                                <div className="mt-1 pl-3 text-[10px] text-blue-500 flex items-center opacity-0 group-hover/line:opacity-100 transition-opacity">
-                                                     <ExternalLink className="w-3 h-3 mr-1" /> 点击跳转到来源
-                                                </div>
+                                                {word.sourceUrl && (
+                                                    <div className="mt-1 pl-3 text-[10px] text-blue-500 flex items-center opacity-0 group-hover/line:opacity-100 transition-opacity">
+                                                         <ExternalLink className="w-3 h-3 mr-1" /> {word.sourceTimestamp !== undefined ? `点击跳转到视频 ${formatTimestamp(word.sourceTimestamp)}` : '点击跳转到来源'}
+                                                    </div>
+                                                )}
                                             </div>
                                         )
                                         if(item.id === 'mixed' && word.mixedSentence) return (
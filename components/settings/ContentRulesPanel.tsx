@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { ContentRule } from '../../types';
+import { Plus, Trash2, Crosshair } from 'lucide-react';
+
+interface ContentRulesPanelProps {
+  rules: ContentRule[];
+  onChange: (rules: ContentRule[]) => void;
+}
+
+const parseSelectors = (text: string) => text.split('\n').map(s => s.trim()).filter(Boolean);
+
+export const ContentRulesPanel: React.FC<ContentRulesPanelProps> = ({ rules, onChange }) => {
+  const [newPattern, setNewPattern] = useState('');
+
+  const addRule = () => {
+    const pattern = newPattern.trim();
+    if (!pattern) return;
+    onChange([...rules, { id: `content-${Date.now()}`, pattern, includeSelectors: [], excludeSelectors: [] }]);
+    setNewPattern('');
+  };
+
+  const updateRule = (id: string, updates: Partial<ContentRule>) => {
+    onChange(rules.map(r => r.id === id ? { ...r, ...updates } : r));
+  };
+
+  const removeRule = (id: string) => {
+    onChange(rules.filter(r => r.id !== id));
+  };
+
+  const textareaClass = "w-full px-2 py-1.5 border border-slate-200 rounded-lg text-xs font-mono text-slate-700 bg-white focus:ring-2 focus:ring-blue-100 outline-none resize-y";
+
+  return (
+    <div className="bg-slate-50 rounded-xl border border-slate-200 p-5">
+      <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center gap-2">
+            <Crosshair className="w-4 h-4 text-blue-500" />
+            <h3 className="text-sm font-bold text-slate-800">正文提取规则</h3>
+          </div>
+          <span className="text-[10px] text-slate-400 bg-white px-1.5 py-0.5 rounded border border-slate-100">{rules.length} 条规则</span>
+      </div>
+      <p className="text-xs text-slate-500 mb-4 leading-relaxed">
+          默认按文本密度与链接密度自动识别正文。自动识别不准确时，可为域名指定正文区域或排除区域的 CSS 选择器 (每行一个)。也可在网页上右键选择 “Re-Word → 选取正文区域 / 选取排除区域”，直接点击元素记录。
+      </p>
+
+      <div className="flex gap-2 mb-4">
+         <input
+            type="text"
+            value={newPattern}
+            onChange={e => setNewPattern(e.target.value)}
+            placeholder="例如: sspai.com"
+            className="flex-1 px-3 py-2 border border-slate-300 rounded-lg text-xs focus:ring-2 focus:ring-blue-100 focus:border-blue-400 outline-none transition-all"
+            onKeyDown={e => e.key === 'Enter' && addRule()}
+         />
+         <button onClick={addRule} className="px-3 py-2 bg-slate-800 text-white rounded-lg text-xs hover:bg-slate-700 transition shadow-sm flex items-center"><Plus className="w-3.5 h-3.5 mr-1"/>添加</button>
+      </div>
+
+      <div className="space-y-2">
+        {rules.length === 0 && (
+            <div className="flex flex-col items-center justify-center text-slate-300 py-6 bg-white border border-slate-200 rounded-lg">
+                <Crosshair className="w-8 h-8 mb-2 opacity-20"/>
+                <span className="text-xs">暂无正文规则，使用自动识别</span>
+            </div>
+        )}
+        {rules.map(rule => (
+            <div key={rule.id} className="bg-white border border-slate-200 rounded-lg p-3 space-y-3">
+              <div className="flex items-center gap-2">
+                 <input
+                    type="text"
+                    value={rule.pattern}
+                    onChange={e => updateRule(rule.id, { pattern: e.target.value })}
+                    className="flex-1 font-mono text-xs text-slate-700 bg-transparent outline-none border-b border-transparent focus:border-blue-300"
+                 />
+                 <button onClick={() => removeRule(rule.id)} className="text-slate-400 hover:text-red-500 p-1"><Trash2 className="w-3.5 h-3.5"/></button>
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  <label className="flex flex-col gap-1 text-[11px] font-bold text-green-600">
+                      正文区域
+                      <textarea
+                          key={(rule.includeSelectors || []).join('|')}
+                          rows={3}
+                          defaultValue={(rule.includeSelectors || []).join('\n')}
+                          onBlur={e => updateRule(rule.id, { includeSelectors: parseSelectors(e.target.value) })}
+                          placeholder=".article-body"
+                          className={textareaClass}
+                      />
+                  </label>
+                  <label className="flex flex-col gap-1 text-[11px] font-bold text-red-500">
+                      排除区域
+                      <textarea
+                          key={(rule.excludeSelectors || []).join('|')}
+                          rows={3}
+                          defaultValue={(rule.excludeSelectors || []).join('\n')}
+                          onBlur={e => updateRule(rule.id, { excludeSelectors: parseSelectors(e.target.value) })}
+                          placeholder=".related-posts"
+                          className={textareaClass}
+                      />
+                  </label>
+              </div>
+            </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -63,7 +63,7 @@ export const EnginesSection: React.FC<EnginesSectionProps> = ({ engines, setEngi
     if (!engine) return;
 
     try {
-      const testResult = await translateWithEngine(engine, "Hello World", "zh");
+      const testResult = await translateWithEngine(engine, "Hello World", "zh", false);
       setEngines(prev => prev.map(e => e.id === id ? { ...e, isTesting: false, testResult: 'success' } : e));
     } catch (err) {
       const errMsg = err instanceof Error ? err.message : '未知错误';
@@ -1,20 +1,70 @@
 
-import React, { useState } from 'react';
-import { AutoTranslateConfig } from '../../types';
-import { ShieldAlert, ShieldCheck, X, Mic2, SplitSquareHorizontal, Scan, Zap, AlertTriangle, Power, Globe } from 'lucide-react';
+import React, { useState, useEffect } from 'react';
+import { AutoTranslateConfig, TranslationEngine } from '../../types';
+import { ShieldAlert, ShieldCheck, X, Mic2, SplitSquareHorizontal, Scan, Zap, AlertTriangle, Power, Globe, Database, Trash2, RefreshCw, Gauge, Languages, GraduationCap, Captions, Ruler, Wand2, BookMarked } from 'lucide-react';
+import { browser } from 'wxt/browser';
+import { TranslationCacheStats } from '../../utils/translation-cache';
+import { DictionaryCacheStats } from '../../utils/dictionary-cache';
+import { SiteProfilesPanel } from './SiteProfilesPanel';
+import { ContentRulesPanel } from './ContentRulesPanel';
+import { LANGUAGE_PROFILES, DEFAULT_LEARNING_LANGUAGE } from '../../utils/languages';
+import { DEFAULT_AUTO_TRANSLATE } from '../../constants';
 
 interface GeneralSectionProps {
   config: AutoTranslateConfig;
   setConfig: React.Dispatch<React.SetStateAction<AutoTranslateConfig>>;
+  engines: TranslationEngine[];
 }
 
-export const GeneralSection: React.FC<GeneralSectionProps> = ({ config, setConfig }) => {
+export const GeneralSection: React.FC<GeneralSectionProps> = ({ config, setConfig, engines }) => {
   const [newBlacklist, setNewBlacklist] = useState('');
   const [newWhitelist, setNewWhitelist] = useState('');
+  const [cacheStats, setCacheStats] = useState<TranslationCacheStats | null>(null);
+  const [isClearingCache, setIsClearingCache] = useState(false);
+
+  const refreshCacheStats = async () => {
+    const res = await browser.runtime.sendMessage({ action: 'GET_TRANSLATION_CACHE_STATS' }) as any;
+    if (res?.success) setCacheStats(res.data);
+  };
+
+  useEffect(() => { refreshCacheStats(); }, []);
+
+  const clearCache = async () => {
+    if (!confirm('确定要清空所有已缓存的段落翻译吗？')) return;
+    setIsClearingCache(true);
+    try {
+      await browser.runtime.sendMessage({ action: 'CLEAR_TRANSLATION_CACHE' });
+      await refreshCacheStats();
+    } finally {
+      setIsClearingCache(false);
+    }
+  };
+
+  const [dictCacheStats, setDictCacheStats] = useState<DictionaryCacheStats | null>(null);
+  const [isClearingDictCache, setIsClearingDictCache] = useState(false);
+
+  const refreshDictCacheStats = async () => {
+    const res = await browser.runtime.sendMessage({ action: 'GET_DICTIONARY_CACHE_STATS' }) as any;
+    if (res?.success) setDictCacheStats(res.data);
+  };
+
+  useEffect(() => { refreshDictCacheStats(); }, []);
+
+  const clearDictCache = async () => {
+    if (!confirm('确定要清空所有已缓存的词典查询结果吗？')) return;
+    setIsClearingDictCache(true);
+    try {
+      await browser.runtime.sendMessage({ action: 'CLEAR_DICTIONARY_CACHE' });
+      await refreshDictCacheStats();
+    } finally {
+      setIsClearingDictCache(false);
+    }
+  };
 
   // Defensive: Ensure arrays exist
   const blacklist = Array.isArray(config.blacklist) ? config.blacklist : [];
   const whitelist = Array.isArray(config.whitelist) ? config.whitelist : [];
+  const siteProfiles = Array.isArray(config.siteProfiles) ? config.siteProfiles : [];
 
   const addBlacklist = () => {
     if (newBlacklist.trim()) {
@@ -104,6 +154,15 @@ export const GeneralSection: React.FC<GeneralSectionProps> = ({ config, setConfi
                 colorClass="text-blue-600 bg-blue-50 border-blue-100"
             />
 
+            <ToggleCard 
+                title="仅白名单模式" 
+                desc="只在白名单和站点配置中列出的网站上自动翻译，其余网站需手动按 Alt+T 触发。"
+                icon={ShieldCheck}
+                checked={!!config.whitelistOnly}
+                onChange={v => setConfig({...config, whitelistOnly: v})}
+                colorClass="text-green-600 bg-green-50 border-green-100"
+            />
+
             <ToggleCard 
                 title="扫描整个页面" 
                 desc="默认仅处理页面的主要内容区域（Main/Article）。开启后将扩大范围至侧边栏、导航及页脚等区域，可能会略微影响性能。"
@@ -122,6 +181,33 @@ export const GeneralSection: React.FC<GeneralSectionProps> = ({ config, setConfi
                 colorClass="text-indigo-600 bg-indigo-50 border-indigo-100"
             />
 
+            <ToggleCard 
+                title="智能词态匹配" 
+                desc="按英语构词规则与不规则变化表识别单词的各种形态，如 book → booked、study → studies、go → went，规则变化依据词条的词性生成，未标注词性时仅识别不规则变化。"
+                icon={Wand2}
+                checked={config.matchInflections}
+                onChange={v => setConfig({...config, matchInflections: v})}
+                colorClass="text-purple-600 bg-purple-50 border-purple-100"
+            />
+
+            <ToggleCard 
+                title="英文页面标注" 
+                desc="阅读英文网页时，为原文中已收录的单词（含词态变化）标注中文释义，沿用各分类的样式与气泡交互，无需调用翻译引擎。"
+                icon={Languages}
+                checked={!!config.englishAnnotation}
+                onChange={v => setConfig({...config, englishAnnotation: v})}
+                colorClass="text-teal-600 bg-teal-50 border-teal-100"
+            />
+
+            <ToggleCard 
+                title="视频字幕模式" 
+                desc="在 YouTube、Bilibili 及使用 <track> 字幕的网页视频中，对字幕逐行进行词汇替换。从字幕中添加的单词会记录视频地址与播放时间点，可从详情页和悬浮窗跳回该时刻。"
+                icon={Captions}
+                checked={!!config.subtitleMode}
+                onChange={v => setConfig({...config, subtitleMode: v})}
+                colorClass="text-rose-600 bg-rose-50 border-rose-100"
+            />
+
             <ToggleCard 
                 title="激进匹配模式 (Aggressive Mode)" 
                 desc="当单词在译文中存在但因变形或翻译差异未匹配时，尝试实时调用词典 API 获取所有释义进行二次模糊匹配。"
@@ -181,6 +267,162 @@ export const GeneralSection: React.FC<GeneralSectionProps> = ({ config, setConfi
            </div>
         </div>
 
+        {/* Learning Language */}
+        <div className="bg-slate-50 p-5 rounded-xl border border-slate-100 flex items-center gap-6">
+           <div className="flex items-center gap-3 min-w-[120px]">
+               <div className="p-2 bg-white rounded-lg border border-slate-200 text-slate-500 shadow-sm">
+                   <GraduationCap className="w-4 h-4" />
+               </div>
+               <div>
+                   <h3 className="font-bold text-slate-900 text-sm">学习语言</h3>
+                   <span className="text-xs text-slate-400">Target Language</span>
+               </div>
+           </div>
+
+           <div className="flex-1 flex items-center justify-between gap-4 bg-white px-4 py-3 rounded-lg border border-slate-200 shadow-sm">
+              <p className="text-xs text-slate-500 leading-relaxed">
+                  中文段落将翻译为该语言，仅替换属于该语言的词条。激进模式与英文页面标注仅支持英语；有道词典不支持的语言无法在线查词。
+              </p>
+              <div className="flex bg-slate-100 p-0.5 rounded-lg border border-slate-200 shrink-0">
+                  {Object.values(LANGUAGE_PROFILES).map(profile => (
+                      <button
+                          key={profile.code}
+                          onClick={() => setConfig({...config, learningLanguage: profile.code})}
+                          title={profile.nativeLabel}
+                          className={`px-2 py-1 text-xs font-bold rounded-md transition ${(config.learningLanguage || DEFAULT_LEARNING_LANGUAGE) === profile.code ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-400 hover:text-slate-600'}`}
+                      >
+                          {profile.label}
+                      </button>
+                  ))}
+              </div>
+           </div>
+        </div>
+
+        {/* Translation Concurrency */}
+        <div className="bg-slate-50 p-5 rounded-xl border border-slate-100 flex items-center gap-6">
+           <div className="flex items-center gap-3 min-w-[120px]">
+               <div className="p-2 bg-white rounded-lg border border-slate-200 text-slate-500 shadow-sm">
+                   <Gauge className="w-4 h-4" />
+               </div>
+               <div>
+                   <h3 className="font-bold text-slate-900 text-sm">并发翻译</h3>
+                   <span className="text-xs text-slate-400">Parallel Requests</span>
+               </div>
+           </div>
+
+           <div className="flex-1 flex items-center justify-between gap-4 bg-white px-4 py-3 rounded-lg border border-slate-200 shadow-sm">
+              <p className="text-xs text-slate-500 leading-relaxed">
+                  页面段落按可见性排队：视口内优先，其次是附近区域，远处内容滚动接近时才翻译。数值越大翻译越快，但免费引擎更容易触发频率限制。
+              </p>
+              <div className="flex bg-slate-100 p-0.5 rounded-lg border border-slate-200 shrink-0">
+                  {[1, 2, 3, 4, 5, 6].map(n => (
+                      <button
+                          key={n}
+                          onClick={() => setConfig({...config, maxConcurrentRequests: n})}
+                          className={`w-7 py-1 text-xs font-mono font-bold rounded-md transition ${(config.maxConcurrentRequests || DEFAULT_AUTO_TRANSLATE.maxConcurrentRequests) === n ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-400 hover:text-slate-600'}`}
+                      >
+                          {n}
+                      </button>
+                  ))}
+              </div>
+           </div>
+        </div>
+
+        {/* Minimum Gloss Length */}
+        <div className="bg-slate-50 p-5 rounded-xl border border-slate-100 flex items-center gap-6">
+           <div className="flex items-center gap-3 min-w-[120px]">
+               <div className="p-2 bg-white rounded-lg border border-slate-200 text-slate-500 shadow-sm">
+                   <Ruler className="w-4 h-4" />
+               </div>
+               <div>
+                   <h3 className="font-bold text-slate-900 text-sm">释义最短长度</h3>
+                   <span className="text-xs text-slate-400">Min Gloss Length</span>
+               </div>
+           </div>
+
+           <div className="flex-1 flex items-center justify-between gap-4 bg-white px-4 py-3 rounded-lg border border-slate-200 shadow-sm">
+              <p className="text-xs text-slate-500 leading-relaxed">
+                  释义按中文分词边界匹配，"会" 不会命中 "会议"。短于该长度的释义直接跳过；个别单词需要在词内命中时，可在单词本中为其开启 "子串匹配"。
+              </p>
+              <div className="flex bg-slate-100 p-0.5 rounded-lg border border-slate-200 shrink-0">
+                  {[1, 2, 3, 4].map(n => (
+                      <button
+                          key={n}
+                          onClick={() => setConfig({...config, minGlossLength: n})}
+                          className={`w-7 py-1 text-xs font-mono font-bold rounded-md transition ${(config.minGlossLength || 1) === n ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-400 hover:text-slate-600'}`}
+                      >
+                          {n}
+                      </button>
+                  ))}
+              </div>
+           </div>
+        </div>
+
+        {/* Translation Cache */}
+        <div className="bg-slate-50 p-5 rounded-xl border border-slate-100 flex items-center gap-6">
+           <div className="flex items-center gap-3 min-w-[120px]">
+               <div className="p-2 bg-white rounded-lg border border-slate-200 text-slate-500 shadow-sm">
+                   <Database className="w-4 h-4" />
+               </div>
+               <div>
+                   <h3 className="font-bold text-slate-900 text-sm">翻译缓存</h3>
+                   <span className="text-xs text-slate-400">Translation Cache</span>
+               </div>
+           </div>
+
+           <div className="flex-1 flex items-center justify-between gap-4 bg-white px-4 py-3 rounded-lg border border-slate-200 shadow-sm">
+              <p className="text-xs text-slate-500 leading-relaxed">
+                  已缓存 <span className="font-bold text-slate-700 font-mono">{cacheStats ? cacheStats.count : '-'}</span> / {cacheStats ? cacheStats.maxEntries : '-'} 条段落译文。重复访问页面时直接复用，超出上限后自动淘汰最久未使用的记录。
+              </p>
+              <div className="flex items-center gap-2 shrink-0">
+                  <button onClick={refreshCacheStats} className="p-2 text-slate-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition" title="刷新统计">
+                      <RefreshCw className="w-3.5 h-3.5" />
+                  </button>
+                  <button 
+                      onClick={clearCache} 
+                      disabled={isClearingCache || cacheStats?.count === 0}
+                      className="flex items-center px-3 py-2 bg-white text-red-600 border border-red-200 rounded-lg text-xs hover:bg-red-50 disabled:opacity-50 transition shadow-sm"
+                  >
+                      <Trash2 className="w-3.5 h-3.5 mr-1.5" /> 清空缓存
+                  </button>
+              </div>
+           </div>
+        </div>
+
+        {/* Dictionary Cache */}
+        <div className="bg-slate-50 p-5 rounded-xl border border-slate-100 flex items-center gap-6">
+           <div className="flex items-center gap-3 min-w-[120px]">
+               <div className="p-2 bg-white rounded-lg border border-slate-200 text-slate-500 shadow-sm">
+                   <BookMarked className="w-4 h-4" />
+               </div>
+               <div>
+                   <h3 className="font-bold text-slate-900 text-sm">词典缓存</h3>
+                   <span className="text-xs text-slate-400">Dictionary Cache</span>
+               </div>
+           </div>
+
+           <div className="flex-1 flex items-center justify-between gap-4 bg-white px-4 py-3 rounded-lg border border-slate-200 shadow-sm">
+              <p className="text-xs text-slate-500 leading-relaxed">
+                  已缓存 <span className="font-bold text-slate-700 font-mono">{dictCacheStats ? dictCacheStats.count : '-'}</span> / {dictCacheStats ? dictCacheStats.maxEntries : '-'} 个单词，
+                  约 <span className="font-bold text-slate-700 font-mono">{dictCacheStats ? (dictCacheStats.bytes / 1024 / 1024).toFixed(1) : '-'}</span> MB
+                  {dictCacheStats && dictCacheStats.expired > 0 ? `，其中 ${dictCacheStats.expired} 个已过期` : ''}。
+                  查词、激进匹配与单词详情共用，{dictCacheStats ? dictCacheStats.ttlDays : '-'} 天后重新请求，离线时仍可使用过期数据。
+              </p>
+              <div className="flex items-center gap-2 shrink-0">
+                  <button onClick={refreshDictCacheStats} className="p-2 text-slate-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition" title="刷新统计">
+                      <RefreshCw className="w-3.5 h-3.5" />
+                  </button>
+                  <button 
+                      onClick={clearDictCache} 
+                      disabled={isClearingDictCache || dictCacheStats?.count === 0}
+                      className="flex items-center px-3 py-2 bg-white text-red-600 border border-red-200 rounded-lg text-xs hover:bg-red-50 disabled:opacity-50 transition shadow-sm"
+                  >
+                      <Trash2 className="w-3.5 h-3.5 mr-1.5" /> 清空缓存
+                  </button>
+              </div>
+           </div>
+        </div>
+
         {/* Lists */}
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
            {/* Blacklist */}
@@ -229,7 +471,7 @@ export const GeneralSection: React.FC<GeneralSectionProps> = ({ config, setConfi
               <div className="flex items-center justify-between mb-4">
                   <div className="flex items-center gap-2">
                     <ShieldCheck className="w-4 h-4 text-green-500" />
-                    <h3 className="text-sm font-bold text-slate-800">白名单 (强制翻译)</h3>
+                    <h3 className="text-sm font-bold text-slate-800">白名单 (仅白名单模式)</h3>
                   </div>
                   <span className="text-[10px] text-slate-400 bg-white px-1.5 py-0.5 rounded border border-slate-100">{whitelist.length} 条规则</span>
               </div>
@@ -266,6 +508,19 @@ export const GeneralSection: React.FC<GeneralSectionProps> = ({ config, setConfi
            </div>
         </div>
 
+        {/* Site Profiles */}
+        <SiteProfilesPanel 
+            profiles={siteProfiles} 
+            onChange={profiles => setConfig({...config, siteProfiles: profiles})} 
+            engines={engines} 
+        />
+
+        {/* Content Extraction Rules */}
+        <ContentRulesPanel 
+            rules={Array.isArray(config.contentRules) ? config.contentRules : []} 
+            onChange={rules => setConfig({...config, contentRules: rules})} 
+        />
+
       </div>
     </section>
   );
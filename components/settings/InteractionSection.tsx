@@ -1,7 +1,9 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { WordInteractionConfig, InteractionTrigger, ModifierKey, MouseAction, BubblePosition } from '../../types';
-import { Volume2, Info, ArrowUp, ArrowDown, ArrowLeft, ArrowRight, Plus, ExternalLink, BookOpen } from 'lucide-react';
+import { WordInteractionConfig, InteractionTrigger, ModifierKey, MouseAction, BubblePosition, KeyboardAction, KeyboardShortcut } from '../../types';
+import { Volume2, Info, ArrowUp, ArrowDown, ArrowLeft, ArrowRight, Plus, ExternalLink, BookOpen, Keyboard } from 'lucide-react';
 import { playWordAudio, playTextToSpeech } from '../../utils/audio';
+import { DEFAULT_WORD_INTERACTION } from '../../constants';
+import { KEYBOARD_ACTION_LABELS, formatShortcut } from '../../utils/keyboard-navigation';
 import { browser } from 'wxt/browser';
 
 const Tooltip: React.FC<{ text: string; children: React.ReactNode }> = ({ text, children }) => {
@@ -89,12 +91,40 @@ const TriggerInput = ({ label, value, onChange }: { label: string, value: Intera
   );
 };
 
+// 录制快捷键：聚焦后按下组合键，单独的修饰键不会被记录
+const ShortcutInput = ({ value, onChange }: { value: KeyboardShortcut, onChange: (val: KeyboardShortcut) => void }) => {
+  const [isRecording, setIsRecording] = useState(false);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (!isRecording) return;
+    e.preventDefault();
+    if (['Alt', 'Control', 'Shift', 'Meta'].includes(e.key)) return;
+    if (e.key === 'Escape') { setIsRecording(false); return; }
+    const modifier: ModifierKey = e.altKey ? 'Alt' : e.ctrlKey ? 'Ctrl' : e.metaKey ? 'Meta' : e.shiftKey ? 'Shift' : 'None';
+    onChange({ modifier, code: e.code });
+    setIsRecording(false);
+  };
+
+  return (
+    <button
+      onClick={() => setIsRecording(true)}
+      onBlur={() => setIsRecording(false)}
+      onKeyDown={handleKeyDown}
+      className={`min-w-[110px] px-3 py-1.5 text-xs font-mono rounded-lg border transition ${isRecording ? 'bg-blue-50 border-blue-400 text-blue-600' : 'bg-white border-slate-300 text-slate-700 hover:bg-slate-50'}`}
+    >
+      {isRecording ? '请按下组合键...' : formatShortcut(value)}
+    </button>
+  );
+};
+
 interface InteractionSectionProps {
   config: WordInteractionConfig;
   setConfig: React.Dispatch<React.SetStateAction<WordInteractionConfig>>;
 }
 
 export const InteractionSection: React.FC<InteractionSectionProps> = ({ config, setConfig }) => {
+  // 旧版配置没有键盘导航字段，使用默认值
+  const keyboardNavigation = config.keyboardNavigation || DEFAULT_WORD_INTERACTION.keyboardNavigation!;
   
   // State for preview interaction simulation
   const [isPreviewVisible, setIsPreviewVisible] = useState(false);
@@ -345,6 +375,35 @@ export const InteractionSection: React.FC<InteractionSectionProps> = ({ config,
                              <span className="text-[10px] text-slate-400">开启后新气泡不关闭旧气泡</span>
                           </div>
                       </div>
+                      <div className="col-span-2 flex items-center p-3 border rounded-lg cursor-pointer hover:bg-slate-50">
+                          <input type="checkbox" checked={config.selectionLookup ?? true} onChange={e => setConfig({...config, selectionLookup: e.target.checked})} className="rounded text-blue-600 mr-3"/>
+                          <div className="flex flex-col">
+                             <span className="text-sm">划词查词</span>
+                             <span className="text-[10px] text-slate-400">选中网页中的单词后显示查词按钮，可选择释义添加到词库；也可右键选择 “Re-Word → 添加到 Re-Word”</span>
+                          </div>
+                      </div>
+                  </div>
+
+                  <div className="mt-4 bg-slate-50 p-4 rounded-lg border border-slate-100">
+                      <div className="flex items-center justify-between mb-3">
+                          <label className="text-xs font-bold text-slate-400 uppercase tracking-wider flex items-center"><Keyboard className="w-3.5 h-3.5 mr-1.5" /> 键盘导航</label>
+                          <label className="flex items-center text-xs text-slate-600 cursor-pointer">
+                              <input type="checkbox" checked={keyboardNavigation.enabled} onChange={e => setConfig({...config, keyboardNavigation: { ...keyboardNavigation, enabled: e.target.checked }})} className="rounded text-blue-600 mr-2"/>
+                              启用
+                          </label>
+                      </div>
+                      <div className={`grid grid-cols-2 gap-x-4 gap-y-2 ${keyboardNavigation.enabled ? '' : 'opacity-50 pointer-events-none'}`}>
+                          {(Object.keys(KEYBOARD_ACTION_LABELS) as KeyboardAction[]).map(action => (
+                              <div key={action} className="flex items-center justify-between gap-2">
+                                  <span className="text-xs text-slate-600">{KEYBOARD_ACTION_LABELS[action]}</span>
+                                  <ShortcutInput
+                                      value={keyboardNavigation.shortcuts[action]}
+                                      onChange={val => setConfig({...config, keyboardNavigation: { ...keyboardNavigation, shortcuts: { ...keyboardNavigation.shortcuts, [action]: val } }})}
+                                  />
+                              </div>
+                          ))}
+                      </div>
+                      <p className="text-[10px] text-slate-400 mt-2">在页面替换词之间按阅读顺序移动焦点，可打开气泡、朗读及升降分类 (想学习 → 正在学 → 已掌握)。输入框内不生效。</p>
                   </div>
 
                   <div className="mt-4 bg-slate-50 p-4 rounded-lg border border-slate-100">
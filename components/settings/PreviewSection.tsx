@@ -1,10 +1,12 @@
 
-import React, { useState } from 'react';
+import React, { useState, useMemo } from 'react';
 import { TranslationEngine, WordEntry, StyleConfig, WordCategory, OriginalTextConfig, AutoTranslateConfig } from '../../types';
-import { RefreshCw, Play, AlertCircle, Zap, SplitSquareHorizontal } from 'lucide-react';
+import { RefreshCw, Play, AlertCircle, Zap, SplitSquareHorizontal, Target } from 'lucide-react';
 import { callTencentTranslation } from '../../utils/api';
-import { findFuzzyMatches } from '../../utils/matching';
+import { findFuzzyMatches, evaluateGlossMatching, GlossPrecisionReport } from '../../utils/matching';
+import { MatchIndex } from '../../utils/match-index';
 import { buildReplacementHtml } from '../../utils/dom-builder';
+import { applyDensityFilter, DENSITY_STRATEGY_LABELS } from '../../utils/density';
 
 interface PreviewSectionProps {
     engines: TranslationEngine[];
@@ -20,12 +22,28 @@ export const PreviewSection: React.FC<PreviewSectionProps> = ({ engines, entries
     const [replacementResult, setReplacementResult] = useState<React.ReactNode>(null);
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
+    const [densityStats, setDensityStats] = useState<{ category: WordCategory, total: number, kept: number }[]>([]);
+    // 词库索引只在词条变化时增量更新
+    const matchIndex = useMemo(() => new MatchIndex(), []);
+    matchIndex.setMatchInflections(autoTranslateConfig.matchInflections);
+    matchIndex.sync(entries);
+    const [precisionSample, setPrecisionSample] = useState("我明天[[会]]去参加会议，这家[[银行]]的服务还[[行]]。");
+
+    // 匹配精度：按分词边界匹配 vs 直接子串匹配
+    const precisionReports = useMemo(() => {
+        const options = { minGlossLength: autoTranslateConfig.minGlossLength };
+        return {
+            segmented: evaluateGlossMatching(precisionSample, matchIndex, options),
+            substring: evaluateGlossMatching(precisionSample, matchIndex, { ...options, respectWordBoundaries: false })
+        };
+    }, [precisionSample, entries, autoTranslateConfig.minGlossLength]);
 
     const handleGeneratePreview = async () => {
         setIsLoading(true);
         setError(null);
         setTranslatedText("");
         setReplacementResult(null);
+        setDensityStats([]);
 
         try {
             const activeEngine = engines.find(e => e.isEnabled);
@@ -49,41 +67,52 @@ export const PreviewSection: React.FC<PreviewSectionProps> = ({ engines, entries
 
             // STEP 2: Fuzzy Matching with Context Verification
             // Note: findFuzzyMatches v2 takes the translated text as the 3rd argument
-            const finalMatches = findFuzzyMatches(inputText, entries, apiResult);
+            const finalMatches = findFuzzyMatches(inputText, matchIndex, apiResult, 'en', { minGlossLength: autoTranslateConfig.minGlossLength });
 
-            // STEP 3: Render Mixed Text
-            const sortedEntries = finalMatches.sort((a, b) => b.text.length - a.text.length);
-            
+            // STEP 3: Apply per-category density strategy (same as content script)
+            const candidates: { start: number, end: number, text: string, entry: WordEntry, matchedWord: string }[] = finalMatches.map(m => (
+                { start: m.index, end: m.index + m.text.length, text: m.text, entry: m.entry, matchedWord: m.matchedWord }
+            ));
+
+            const kept: typeof candidates = [];
+            let occupiedEnd = -1;
+            applyDensityFilter(candidates, styles, 'preview').forEach(c => {
+                if (c.start >= occupiedEnd) {
+                    kept.push(c);
+                    occupiedEnd = c.end;
+                }
+            });
+
+            setDensityStats(Object.values(WordCategory).map(cat => ({
+                category: cat,
+                total: candidates.filter(c => c.entry.category === cat).length,
+                kept: kept.filter(c => c.entry.category === cat).length,
+            })).filter(s => s.total > 0));
+
+            // STEP 4: Render Mixed Text
             let mixedContent: React.ReactNode;
 
-            if (sortedEntries.length === 0) {
+            if (kept.length === 0) {
                  mixedContent = <span>{inputText}</span>;
             } else {
-                const escapeRegExp = (string: string) => string.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-                const pattern = new RegExp(`(${sortedEntries.map(e => escapeRegExp(e.text)).join('|')})`, 'g');
-                const parts = inputText.split(pattern);
-                
-                mixedContent = (
-                    <div>
-                        {parts.map((part, idx) => {
-                            const match = sortedEntries.find(e => e.text === part);
-                            if (match) {
-                                // Using buildReplacementHtml to ensure preview matches actual content script logic exactly
-                                const html = buildReplacementHtml(
-                                    match.text,
-                                    match.entry.text,
-                                    match.entry.category,
-                                    styles,
-                                    originalTextConfig,
-                                    match.entry.id
-                                );
-                                
-                                return <span key={idx} dangerouslySetInnerHTML={{__html: html}}></span>;
-                            }
-                            return <span key={idx}>{part}</span>;
-                        })}
-                    </div>
-                );
+                const parts: React.ReactNode[] = [];
+                let cursor = 0;
+                kept.forEach((c, idx) => {
+                    if (c.start > cursor) parts.push(<span key={`t-${idx}`}>{inputText.slice(cursor, c.start)}</span>);
+                    // Using buildReplacementHtml to ensure preview matches actual content script logic exactly
+                    const html = buildReplacementHtml(
+                        c.text,
+                        c.matchedWord,
+                        c.entry.category,
+                        styles,
+                        originalTextConfig,
+                        c.entry.id
+                    );
+                    parts.push(<span key={`r-${idx}`} dangerouslySetInnerHTML={{__html: html}}></span>);
+                    cursor = c.end;
+                });
+                if (cursor < inputText.length) parts.push(<span key="t-end">{inputText.slice(cursor)}</span>);
+                mixedContent = <div>{parts}</div>;
             }
 
             setReplacementResult(mixedContent);
@@ -170,6 +199,16 @@ export const PreviewSection: React.FC<PreviewSectionProps> = ({ engines, entries
                          )}
                     </div>
                     
+                    {densityStats.length > 0 && (
+                        <div className="flex flex-wrap gap-2">
+                            {densityStats.map(s => (
+                                <span key={s.category} className="text-[10px] bg-slate-50 text-slate-500 px-2 py-0.5 rounded border border-slate-100 font-medium">
+                                    {s.category}: 替换 {s.kept} / {s.total} · {DENSITY_STRATEGY_LABELS[styles[s.category]?.densityStrategy || 'first']}
+                                </span>
+                            ))}
+                        </div>
+                    )}
+
                     {error && (
                         <div className="flex items-center text-xs text-red-600 bg-red-50 p-3 rounded-lg border border-red-100 animate-in slide-in-from-bottom-2">
                             <AlertCircle className="w-4 h-4 mr-2 shrink-0" />
@@ -178,6 +217,50 @@ export const PreviewSection: React.FC<PreviewSectionProps> = ({ engines, entries
                     )}
                 </div>
             </div>
+
+            {/* Gloss Matching Precision */}
+            <div className="p-6 border-t border-slate-200 space-y-4">
+                <div>
+                    <h3 className="text-sm font-bold text-slate-800 flex items-center">
+                        <Target className="w-4 h-4 mr-2 text-rose-500" />
+                        释义匹配精度
+                    </h3>
+                    <p className="text-xs text-slate-500 mt-1">用 [[ ]] 标出样本中应当被替换的释义，对比按分词边界匹配与直接子串匹配的结果 (不调用翻译引擎)。</p>
+                </div>
+                <textarea
+                    className="w-full p-3 border border-slate-300 rounded-xl text-sm focus:ring-2 focus:ring-blue-500 h-20 resize-none leading-relaxed"
+                    value={precisionSample}
+                    onChange={e => setPrecisionSample(e.target.value)}
+                />
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <PrecisionCard title="分词边界匹配" report={precisionReports.segmented} />
+                    <PrecisionCard title="子串匹配 (旧)" report={precisionReports.substring} />
+                </div>
+            </div>
         </section>
     );
 };
+
+const formatPercent = (n: number) => `${Math.round(n * 100)}%`;
+
+const PrecisionCard: React.FC<{ title: string, report: GlossPrecisionReport }> = ({ title, report }) => (
+    <div className="p-4 bg-slate-50 rounded-xl border border-slate-100">
+        <div className="flex items-center justify-between mb-2">
+            <span className="text-xs font-bold text-slate-600">{title}</span>
+            <span className="text-[10px] text-slate-400">命中 {report.matched} · 标注 {report.expected}</span>
+        </div>
+        <div className="flex gap-6 mb-2">
+            <div><span className="text-xl font-bold text-slate-800 font-mono">{formatPercent(report.precision)}</span> <span className="text-[10px] text-slate-400">精确率</span></div>
+            <div><span className="text-xl font-bold text-slate-800 font-mono">{formatPercent(report.recall)}</span> <span className="text-[10px] text-slate-400">召回率</span></div>
+        </div>
+        {report.falsePositives.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+                {report.falsePositives.map(m => (
+                    <span key={`${m.index}-${m.entry.id}`} className="text-[10px] bg-red-50 text-red-600 px-1.5 py-0.5 rounded border border-red-100" title={m.entry.text}>
+                        误命中 "{m.text}" 于 …{report.text.slice(Math.max(0, m.index - 4), m.index + m.text.length + 4)}…
+                    </span>
+                ))}
+            </div>
+        )}
+    </div>
+);
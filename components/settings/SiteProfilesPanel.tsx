@@ -0,0 +1,186 @@
+import React, { useState } from 'react';
+import { SiteProfile, TranslationEngine, WordCategory, SiteDensityOverride } from '../../types';
+import { Plus, Trash2, ChevronDown, ChevronRight, LayoutTemplate } from 'lucide-react';
+
+interface SiteProfilesPanelProps {
+  profiles: SiteProfile[];
+  onChange: (profiles: SiteProfile[]) => void;
+  engines: TranslationEngine[];
+}
+
+type OverrideKey = 'enabled' | 'translateWholePage' | 'bilingualMode' | 'aggressiveMode';
+
+const OVERRIDE_FIELDS: { key: OverrideKey, label: string }[] = [
+  { key: 'enabled', label: '自动翻译' },
+  { key: 'translateWholePage', label: '扫描整个页面' },
+  { key: 'bilingualMode', label: '双语对照' },
+  { key: 'aggressiveMode', label: '激进匹配' },
+];
+
+const toSelectValue = (v: boolean | undefined) => v === undefined ? 'inherit' : v ? 'on' : 'off';
+const fromSelectValue = (v: string): boolean | undefined => v === 'inherit' ? undefined : v === 'on';
+
+export const SiteProfilesPanel: React.FC<SiteProfilesPanelProps> = ({ profiles, onChange, engines }) => {
+  const [newPattern, setNewPattern] = useState('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const addProfile = () => {
+    const pattern = newPattern.trim();
+    if (!pattern) return;
+    const profile: SiteProfile = { id: `site-${Date.now()}`, pattern };
+    onChange([...profiles, profile]);
+    setNewPattern('');
+    setExpandedId(profile.id);
+  };
+
+  const updateProfile = (id: string, updates: Partial<SiteProfile>) => {
+    onChange(profiles.map(p => p.id === id ? { ...p, ...updates } : p));
+  };
+
+  const removeProfile = (id: string) => {
+    onChange(profiles.filter(p => p.id !== id));
+  };
+
+  const updateDensity = (profile: SiteProfile, cat: WordCategory, override: SiteDensityOverride | undefined) => {
+    const density = { ...(profile.density || {}) };
+    if (override) density[cat] = override;
+    else delete density[cat];
+    updateProfile(profile.id, { density });
+  };
+
+  const selectClass = "px-2 py-1.5 border border-slate-200 rounded-lg text-xs bg-white text-slate-700 focus:ring-2 focus:ring-blue-100 outline-none";
+
+  return (
+    <div className="bg-slate-50 rounded-xl border border-slate-200 p-5">
+      <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center gap-2">
+            <LayoutTemplate className="w-4 h-4 text-blue-500" />
+            <h3 className="text-sm font-bold text-slate-800">站点配置 (Site Profiles)</h3>
+          </div>
+          <span className="text-[10px] text-slate-400 bg-white px-1.5 py-0.5 rounded border border-slate-100">{profiles.length} 个站点</span>
+      </div>
+      <p className="text-xs text-slate-500 mb-4 leading-relaxed">
+          按域名或通配路径为特定网站覆盖全局设置，未修改的项目沿用全局值。支持 <span className="font-mono">zhihu.com</span>、<span className="font-mono">*.sspai.com</span>、<span className="font-mono">zhihu.com/question/*</span> 等写法，多条命中时以规则最长者为准。
+      </p>
+
+      <div className="flex gap-2 mb-4">
+         <input
+            type="text"
+            value={newPattern}
+            onChange={e => setNewPattern(e.target.value)}
+            placeholder="例如: zhihu.com/question/*"
+            className="flex-1 px-3 py-2 border border-slate-300 rounded-lg text-xs focus:ring-2 focus:ring-blue-100 focus:border-blue-400 outline-none transition-all"
+            onKeyDown={e => e.key === 'Enter' && addProfile()}
+         />
+         <button onClick={addProfile} className="px-3 py-2 bg-slate-800 text-white rounded-lg text-xs hover:bg-slate-700 transition shadow-sm flex items-center"><Plus className="w-3.5 h-3.5 mr-1"/>添加</button>
+      </div>
+
+      <div className="space-y-2">
+        {profiles.length === 0 && (
+            <div className="flex flex-col items-center justify-center text-slate-300 py-6 bg-white border border-slate-200 rounded-lg">
+                <LayoutTemplate className="w-8 h-8 mb-2 opacity-20"/>
+                <span className="text-xs">暂无站点配置</span>
+            </div>
+        )}
+        {profiles.map(profile => {
+          const isExpanded = expandedId === profile.id;
+          return (
+            <div key={profile.id} className="bg-white border border-slate-200 rounded-lg">
+              <div className="flex items-center gap-2 px-3 py-2">
+                 <button onClick={() => setExpandedId(isExpanded ? null : profile.id)} className="text-slate-400 hover:text-slate-600">
+                    {isExpanded ? <ChevronDown className="w-4 h-4"/> : <ChevronRight className="w-4 h-4"/>}
+                 </button>
+                 <input
+                    type="text"
+                    value={profile.pattern}
+                    onChange={e => updateProfile(profile.id, { pattern: e.target.value })}
+                    className="flex-1 font-mono text-xs text-slate-700 bg-transparent outline-none border-b border-transparent focus:border-blue-300"
+                 />
+                 <button onClick={() => removeProfile(profile.id)} className="text-slate-400 hover:text-red-500 p-1"><Trash2 className="w-3.5 h-3.5"/></button>
+              </div>
+
+              {isExpanded && (
+                <div className="border-t border-slate-100 p-4 space-y-4">
+                   <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+                      {OVERRIDE_FIELDS.map(field => (
+                          <label key={field.key} className="flex flex-col gap-1 text-[11px] font-bold text-slate-500">
+                              {field.label}
+                              <select
+                                  value={toSelectValue(profile[field.key])}
+                                  onChange={e => updateProfile(profile.id, { [field.key]: fromSelectValue(e.target.value) })}
+                                  className={selectClass}
+                              >
+                                  <option value="inherit">沿用全局</option>
+                                  <option value="on">开启</option>
+                                  <option value="off">关闭</option>
+                              </select>
+                          </label>
+                      ))}
+                      <label className="flex flex-col gap-1 text-[11px] font-bold text-slate-500">
+                          翻译引擎
+                          <select
+                              value={profile.engineId || ''}
+                              onChange={e => updateProfile(profile.id, { engineId: e.target.value || undefined })}
+                              className={selectClass}
+                          >
+                              <option value="">沿用全局</option>
+                              {engines.map(engine => (
+                                  <option key={engine.id} value={engine.id} disabled={!engine.isEnabled}>{engine.name}{engine.isEnabled ? '' : ' (未启用)'}</option>
+                              ))}
+                          </select>
+                      </label>
+                   </div>
+
+                   <div>
+                      <div className="text-[11px] font-bold text-slate-500 mb-2">替换密度</div>
+                      <div className="space-y-2">
+                          {Object.values(WordCategory).map(cat => {
+                              const override = profile.density?.[cat];
+                              return (
+                                  <div key={cat} className="flex items-center gap-3 text-xs">
+                                      <label className="flex items-center gap-2 w-32 text-slate-600 cursor-pointer">
+                                          <input
+                                              type="checkbox"
+                                              checked={!!override}
+                                              onChange={e => updateDensity(profile, cat, e.target.checked ? { densityMode: 'percent', densityValue: 100 } : undefined)}
+                                              className="rounded border-slate-300 text-blue-600"
+                                          />
+                                          {cat}
+                                      </label>
+                                      {override ? (
+                                          <>
+                                              <select
+                                                  value={override.densityMode}
+                                                  onChange={e => updateDensity(profile, cat, { ...override, densityMode: e.target.value as SiteDensityOverride['densityMode'] })}
+                                                  className={selectClass}
+                                              >
+                                                  <option value="count">按个数</option>
+                                                  <option value="percent">按百分比</option>
+                                              </select>
+                                              <input
+                                                  type="number"
+                                                  min={0}
+                                                  max={override.densityMode === 'percent' ? 100 : undefined}
+                                                  value={override.densityValue}
+                                                  onChange={e => updateDensity(profile, cat, { ...override, densityValue: Math.max(0, parseInt(e.target.value) || 0) })}
+                                                  className="w-20 px-2 py-1.5 border border-slate-200 rounded-lg text-xs text-right font-bold text-slate-700 outline-none"
+                                              />
+                                              <span className="text-slate-400">{override.densityMode === 'percent' ? '%' : '个'}</span>
+                                          </>
+                                      ) : (
+                                          <span className="text-slate-300">沿用全局</span>
+                                      )}
+                                  </div>
+                              );
+                          })}
+                      </div>
+                   </div>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
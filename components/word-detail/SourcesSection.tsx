@@ -0,0 +1,38 @@
+import React from 'react';
+import { MapPin, ExternalLink, PlayCircle } from 'lucide-react';
+import { WordEntry } from '../../types';
+import { buildTimestampUrl, formatTimestamp } from '../../utils/subtitles';
+
+// --- My Sources (词库中该单词的来源语境) ---
+export const SourcesSection: React.FC<{ entries: WordEntry[] }> = ({ entries }) => {
+    const sources = entries.filter(e => e.sourceUrl || e.contextSentence);
+    if (sources.length === 0) return null;
+
+    return (
+        <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-8">
+            <div className="flex items-center gap-2 mb-6 pb-4 border-b border-slate-100">
+                <MapPin className="w-5 h-5 text-rose-500" />
+                <h3 className="text-lg font-bold text-slate-800">我的来源 (My Sources)</h3>
+            </div>
+            <div className="space-y-4">
+                {sources.map(entry => (
+                    <div key={entry.id} className="p-4 rounded-xl bg-slate-50 border border-slate-100">
+                        <div className="flex items-center gap-2 mb-2">
+                            <span className="text-sm font-bold text-slate-700">{entry.translation}</span>
+                            {entry.sourceUrl && (
+                                <a href={buildTimestampUrl(entry.sourceUrl, entry.sourceTimestamp)} target="_blank" rel="noopener noreferrer" className="ml-auto flex items-center text-xs text-blue-600 hover:underline shrink-0">
+                                    {entry.sourceTimestamp !== undefined
+                                        ? <><PlayCircle className="w-3.5 h-3.5 mr-1" /> 跳转到视频 {formatTimestamp(entry.sourceTimestamp)}</>
+                                        : <><ExternalLink className="w-3.5 h-3.5 mr-1" /> 打开来源</>}
+                                </a>
+                            )}
+                        </div>
+                        {entry.contextSentence && <p className="text-slate-800 italic leading-relaxed">"{entry.contextSentence}"</p>}
+                        {entry.contextSentenceTranslation && <p className="text-sm text-slate-500 mt-1">{entry.contextSentenceTranslation}</p>}
+                        {entry.sourceUrl && <p className="text-[11px] text-slate-400 mt-2 truncate">{entry.sourceUrl}</p>}
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
@@ -2,9 +2,11 @@
 
 import React, { useState, useEffect, useRef } from 'react';
 import { createPortal } from 'react-dom';
-import { Loader2, Wand2, Volume2, Save, Search, Youtube, Layers, Star, Edit3, ImageOff, Sparkles, Tag, BookOpenCheck } from 'lucide-react';
-import { WordEntry, RichDictionaryResult, DictionaryMeaningCard, WordCategory } from '../../types';
-import { fetchRichWordDetails } from '../../utils/dictionary-service';
+import { Loader2, Wand2, Volume2, Save, Search, Youtube, Layers, Star, Edit3, ImageOff, Sparkles, Tag, BookOpenCheck, Plus, Check } from 'lucide-react';
+import { WordEntry, RichDictionaryResult, DictionaryMeaningCard, WordCategory, LearningLanguage } from '../../types';
+import { fetchRichWordDetails, buildEntryFromCard, buildEntryFromPhrase } from '../../utils/dictionary-service';
+import { autoTranslateConfigStorage } from '../../utils/storage';
+import { DEFAULT_LEARNING_LANGUAGE, getLanguageProfile } from '../../utils/languages';
 import { playWordAudio } from '../../utils/audio';
 import { browser } from 'wxt/browser';
 import { Toast, ToastMessage } from '../ui/Toast';
@@ -32,15 +34,19 @@ interface InfoTagProps {
     trans: string;
     onHover: (e: React.MouseEvent, t: string) => void;
     onLeave: () => void;
+    selected?: boolean;
+    onToggle?: () => void; // 提供时标签可勾选，作为独立词条导入
 }
 
 // Helper Component for Unified Tags with Tooltips (Now uses callback for Portal Tooltip)
-const InfoTag: React.FC<InfoTagProps> = ({ text, trans, onHover, onLeave }) => (
+const InfoTag: React.FC<InfoTagProps> = ({ text, trans, onHover, onLeave, selected, onToggle }) => (
     <div 
-        className="cursor-help inline-flex items-center px-2.5 py-1 bg-slate-50 border border-slate-200 rounded-lg text-xs text-slate-700 hover:bg-white hover:border-blue-400 hover:text-blue-600 transition-all"
+        className={`${onToggle ? 'cursor-pointer' : 'cursor-help'} inline-flex items-center px-2.5 py-1 border rounded-lg text-xs transition-all ${selected ? 'bg-blue-50 border-blue-400 text-blue-700' : 'bg-slate-50 border-slate-200 text-slate-700 hover:bg-white hover:border-blue-400 hover:text-blue-600'}`}
         onMouseEnter={(e) => onHover(e, trans)}
         onMouseLeave={onLeave}
+        onClick={onToggle}
     >
+        {onToggle && (selected ? <Check className="w-3 h-3 mr-1"/> : <Plus className="w-3 h-3 mr-1 opacity-50"/>)}
         <span className="font-medium mr-1">{text}</span>
     </div>
 );
@@ -52,6 +58,8 @@ export const AddWordModal: React.FC<AddWordModalProps> = ({ isOpen, onClose, onC
   const [currentSource, setCurrentSource] = useState<string>('default'); 
   
   const [cards, setCards] = useState<EditableCardState[]>([]);
+  // 勾选的常用短语 (在 searchResult.phrases 中的下标)，保存时各自作为独立词条
+  const [selectedPhrases, setSelectedPhrases] = useState<Set<number>>(new Set());
   
   // Tooltip State for Phrases/Roots
   const [tooltip, setTooltip] = useState<{ rect: DOMRect, text: string } | null>(null);
@@ -67,6 +75,14 @@ export const AddWordModal: React.FC<AddWordModalProps> = ({ isOpen, onClose, onC
   // Local Toast State for this Modal
   const [toast, setToast] = useState<ToastMessage | null>(null);
 
+  // 当前学习语言：决定联想/查词所用的词典语种以及新词条的 language
+  const [learningLanguage, setLearningLanguage] = useState<LearningLanguage>(DEFAULT_LEARNING_LANGUAGE);
+
+  useEffect(() => {
+      if (!isOpen) return;
+      autoTranslateConfigStorage.getValue().then(config => setLearningLanguage(config.learningLanguage || DEFAULT_LEARNING_LANGUAGE));
+  }, [isOpen]);
+
   const showToast = (message: string, type: 'success' | 'error' | 'warning' | 'info' = 'success') => {
       setToast({ id: Date.now(), message, type });
   };
@@ -76,6 +92,7 @@ export const AddWordModal: React.FC<AddWordModalProps> = ({ isOpen, onClose, onC
           setInputText('');
           setSearchResult(null);
           setCards([]);
+          setSelectedPhrases(new Set());
           setTooltip(null);
           setPreviewImage(null);
           setSuggestions([]);
@@ -95,7 +112,7 @@ export const AddWordModal: React.FC<AddWordModalProps> = ({ isOpen, onClose, onC
     const timer = setTimeout(async () => {
         if (inputText.trim().length > 0 && !isSearching) {
             try {
-                const res = await browser.runtime.sendMessage({ action: 'SUGGEST_WORD', text: inputText });
+                const res = await browser.runtime.sendMessage({ action: 'SUGGEST_WORD', text: inputText, language: learningLanguage });
                 if (res && res.success && Array.isArray(res.data) && res.data.length > 0) {
                     setSuggestions(res.data);
                     setShowSuggestions(true);
@@ -113,7 +130,7 @@ export const AddWordModal: React.FC<AddWordModalProps> = ({ isOpen, onClose, onC
     }, 300);
 
     return () => clearTimeout(timer);
-  }, [inputText, isSearching, searchResult]);
+  }, [inputText, isSearching, searchResult, learningLanguage]);
 
   // Close suggestions on click outside
   useEffect(() => {
@@ -134,13 +151,14 @@ export const AddWordModal: React.FC<AddWordModalProps> = ({ isOpen, onClose, onC
       setIsSearching(true);
       setSearchResult(null);
       setCards([]);
+      setSelectedPhrases(new Set());
       setShowSuggestions(false);
       setToast(null);
       
       if (overrideText) setInputText(overrideText);
 
       try {
-          const result = await fetchRichWordDetails(textToSearch);
+          const result = await fetchRichWordDetails(textToSearch, learningLanguage);
           setSearchResult(result);
           setCurrentSource(result.source || 'default');
           
@@ -205,6 +223,17 @@ export const AddWordModal: React.FC<AddWordModalProps> = ({ isOpen, onClose, onC
       setCards(prev => prev.map((card, i) => i === index ? { ...card, [field]: value } : card));
   };
 
+  const togglePhrase = (index: number) => {
+      setSelectedPhrases(prev => {
+          const next = new Set(prev);
+          if (next.has(index)) next.delete(index);
+          else next.add(index);
+          return next;
+      });
+  };
+
+  const selectedCount = cards.filter(c => c.isSelected).length + selectedPhrases.size;
+
   const handleImport = async () => {
       if (!searchResult) return;
       const promises: Promise<void>[] = [];
@@ -213,38 +242,27 @@ export const AddWordModal: React.FC<AddWordModalProps> = ({ isOpen, onClose, onC
           if (!card.isSelected) return;
 
           const entry: Partial<WordEntry> = {
-              text: searchResult.text,
-              phoneticUk: searchResult.phoneticUk,
-              phoneticUs: searchResult.phoneticUs,
-              
-              translation: card.defCn,
-              englishDefinition: card.defEn,
-              
-              partOfSpeech: card.partOfSpeech,
-
-              inflections: [...new Set([...searchResult.inflections, ...card.inflections])],
-              
-              dictionaryExample: card.example,
-              dictionaryExampleTranslation: card.exampleTrans,
-              
-              tags: card.tags,
-              importance: card.importance,
-              cocaRank: Number(card.cocaRank) || 0,
-              
-              image: card.selectedImage || undefined,
-              video: searchResult.video, 
-              
-              phrases: searchResult.phrases,
-              roots: searchResult.roots,
-              synonyms: searchResult.synonyms,
-              
+              ...buildEntryFromCard(searchResult, card, card.selectedImage),
               category: initialCategory,
+              language: learningLanguage,
               addedAt: Date.now() + idx, 
               scenarioId: '1'
           };
           promises.push(onConfirm(entry));
       });
 
+      Array.from(selectedPhrases).forEach((phraseIndex, idx) => {
+          const phrase = searchResult.phrases[phraseIndex];
+          if (!phrase) return;
+          promises.push(onConfirm({
+              ...buildEntryFromPhrase(phrase),
+              category: initialCategory,
+              language: learningLanguage,
+              addedAt: Date.now() + cards.length + idx,
+              scenarioId: '1'
+          }));
+      });
+
       await Promise.all(promises);
       onClose();
   };
@@ -275,7 +293,7 @@ export const AddWordModal: React.FC<AddWordModalProps> = ({ isOpen, onClose, onC
                             <input 
                                 type="text" 
                                 className="w-full pl-10 pr-4 py-3 rounded-xl border border-slate-300 focus:border-blue-500 focus:ring-2 focus:ring-blue-100 outline-none text-lg font-bold text-slate-800"
-                                placeholder="输入英文单词..."
+                                placeholder={`输入${getLanguageProfile(learningLanguage).label}单词...`}
                                 value={inputText}
                                 onChange={e => { setInputText(e.target.value); setShowSuggestions(true); }}
                                 onKeyDown={e => e.key === 'Enter' && handleLookup()}
@@ -331,12 +349,12 @@ export const AddWordModal: React.FC<AddWordModalProps> = ({ isOpen, onClose, onC
                                             <h2 className="text-4xl font-extrabold text-slate-900 tracking-tight">{String(searchResult.text)}</h2>
                                             <div className="flex items-center gap-3 text-sm text-slate-500 font-mono">
                                                 {searchResult.phoneticUk && (
-                                                    <span className="flex items-center cursor-pointer hover:text-blue-600 transition" onClick={() => playWordAudio(searchResult.text, 'UK')}>
+                                                    <span className="flex items-center cursor-pointer hover:text-blue-600 transition" onClick={() => playWordAudio(searchResult.text, 'UK', 1.0, learningLanguage)}>
                                                         <span className="text-[10px] mr-1 text-slate-400 font-sans">UK</span> {String(searchResult.phoneticUk)} <Volume2 className="w-3.5 h-3.5 ml-1 opacity-50"/>
                                                     </span>
                                                 )}
                                                 {searchResult.phoneticUs && (
-                                                    <span className="flex items-center cursor-pointer hover:text-blue-600 transition" onClick={() => playWordAudio(searchResult.text, 'US')}>
+                                                    <span className="flex items-center cursor-pointer hover:text-blue-600 transition" onClick={() => playWordAudio(searchResult.text, 'US', 1.0, learningLanguage)}>
                                                         <span className="text-[10px] mr-1 text-slate-400 font-sans">US</span> {String(searchResult.phoneticUs)} <Volume2 className="w-3.5 h-3.5 ml-1 opacity-50"/>
                                                     </span>
                                                 )}
@@ -356,7 +374,7 @@ export const AddWordModal: React.FC<AddWordModalProps> = ({ isOpen, onClose, onC
                                             {/* Phrases */}
                                             {searchResult.phrases.length > 0 && (
                                                 <div className="bg-slate-50/50 rounded-lg p-4 border border-slate-100">
-                                                    <span className="text-xs font-bold text-slate-400 uppercase tracking-wider block mb-3">常用短语 (Phrases)</span>
+                                                    <span className="text-xs font-bold text-slate-400 uppercase tracking-wider block mb-3">常用短语 (Phrases) · 点击勾选可作为独立词条保存</span>
                                                     <div className="flex flex-wrap gap-2">
                                                         {searchResult.phrases.map((p, i) => (
                                                             <InfoTag 
@@ -365,6 +383,8 @@ export const AddWordModal: React.FC<AddWordModalProps> = ({ isOpen, onClose, onC
                                                                 trans={String(p.trans)} 
                                                                 onHover={handleTagHover}
                                                                 onLeave={handleTagLeave}
+                                                                selected={selectedPhrases.has(i)}
+                                                                onToggle={() => togglePhrase(i)}
                                                             />
                                                         ))}
                                                     </div>
@@ -626,13 +646,13 @@ export const AddWordModal: React.FC<AddWordModalProps> = ({ isOpen, onClose, onC
                 {/* Footer */}
                 <div className="bg-slate-50 border-t border-slate-200 px-6 py-4 flex justify-between items-center shrink-0">
                     <div className="text-sm text-slate-500">
-                        {searchResult ? `共找到 ${searchResult.meanings.length} 个义项，已选 ${cards.filter(c => c.isSelected).length} 个` : ''}
+                        {searchResult ? `共找到 ${searchResult.meanings.length} 个义项，已选 ${cards.filter(c => c.isSelected).length} 个${selectedPhrases.size > 0 ? `，短语 ${selectedPhrases.size} 个` : ''}` : ''}
                     </div>
                     <div className="flex gap-3">
                         <button onClick={onClose} className="px-5 py-2.5 rounded-lg text-slate-600 font-medium hover:bg-slate-200 transition">取消</button>
                         <button 
                         onClick={handleImport}
-                        disabled={!searchResult || cards.filter(c => c.isSelected).length === 0}
+                        disabled={!searchResult || selectedCount === 0}
                         className="px-6 py-2.5 bg-blue-600 text-white rounded-lg font-bold hover:bg-blue-700 disabled:opacity-50 shadow-lg shadow-blue-200 transition flex items-center gap-2"
                         >
                         <Save className="w-4 h-4"/>
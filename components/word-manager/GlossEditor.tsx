@@ -0,0 +1,63 @@
+import React, { useState } from 'react';
+import { Pencil, RotateCcw } from 'lucide-react';
+import { WordEntry } from '../../types';
+import { getEntryGlosses, normalizeGlosses } from '../../utils/gloss';
+
+interface GlossEditorProps {
+    entry: WordEntry;
+    showTranslation?: boolean; // 合并显示多个释义词条时标明所属释义
+    onSave: (entryId: string, glosses: string[] | undefined) => void;
+}
+
+/**
+ * 匹配释义：网页中按这些中文释义定位可替换的位置，可手动增删
+ */
+export const GlossEditor: React.FC<GlossEditorProps> = ({ entry, showTranslation, onSave }) => {
+    const [draft, setDraft] = useState<string | null>(null);
+    const glosses = getEntryGlosses(entry);
+    const generated = normalizeGlosses(entry.translation);
+    const isEdited = glosses.join('、') !== generated.join('、');
+
+    const commit = () => {
+        if (draft === null) return;
+        const next = Array.from(new Set(draft.split(/[,;，；、\s]+/).map(g => g.trim()).filter(Boolean)));
+        setDraft(null);
+        if (next.join('、') !== glosses.join('、')) onSave(entry.id, next);
+    };
+
+    return (
+        <div className="flex items-center flex-wrap gap-1.5 text-xs">
+            <span className="text-[10px] text-slate-400 shrink-0" title="网页中按这些释义匹配可替换的位置">
+                匹配释义{showTranslation ? ` (${entry.translation})` : ''}
+            </span>
+            {draft !== null ? (
+                <input
+                    autoFocus
+                    value={draft}
+                    onChange={e => setDraft(e.target.value)}
+                    onKeyDown={e => {
+                        if (e.key === 'Enter') commit();
+                        if (e.key === 'Escape') setDraft(null);
+                    }}
+                    onBlur={commit}
+                    placeholder="用顿号或逗号分隔"
+                    className="flex-1 min-w-[160px] px-2 py-0.5 border border-blue-300 rounded text-xs focus:ring-1 focus:ring-blue-500 outline-none"
+                />
+            ) : (
+                <>
+                    {glosses.length > 0 ? glosses.map(g => (
+                        <span key={g} className="px-1.5 py-0.5 bg-slate-50 text-slate-600 rounded border border-slate-200">{g}</span>
+                    )) : <span className="text-slate-300 italic">无可匹配释义</span>}
+                    <button onClick={() => setDraft(glosses.join('、'))} className="p-0.5 text-slate-300 hover:text-blue-600 transition" title="编辑匹配释义">
+                        <Pencil className="w-3 h-3" />
+                    </button>
+                    {isEdited && (
+                        <button onClick={() => onSave(entry.id, undefined)} className="p-0.5 text-slate-300 hover:text-amber-600 transition" title="恢复为自动生成的释义">
+                            <RotateCcw className="w-3 h-3" />
+                        </button>
+                    )}
+                </>
+            )}
+        </div>
+    );
+};
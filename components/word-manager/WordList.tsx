@@ -1,7 +1,9 @@
 import React, { useState } from 'react';
 import { createPortal } from 'react-dom';
 import { WordEntry, WordCategory, MergeStrategyConfig } from '../../types';
-import { PlayCircle, MapPin, ExternalLink, Filter, BarChart2, Star, Youtube, Image as ImageIcon } from 'lucide-react';
+import { PlayCircle, MapPin, ExternalLink, Filter, BarChart2, Star, Youtube, Image as ImageIcon, EyeOff, X, TextCursorInput } from 'lucide-react';
+import { buildTimestampUrl, formatTimestamp } from '../../utils/subtitles';
+import { GlossEditor } from './GlossEditor';
 import { playWordAudio, playSentenceAudio } from '../../utils/audio';
 import { browser } from 'wxt/browser';
 
@@ -16,6 +18,9 @@ interface WordListProps {
     searchQuery: string;
     ttsSpeed?: number;
     onOpenDetail?: (word: string) => void;
+    onUnhideSite?: (entryId: string, site: string) => void;
+    onToggleSubstringMatch?: (entryIds: string[], allow: boolean) => void;
+    onUpdateGlosses?: (entryId: string, glosses: string[] | undefined) => void;
 }
 
 const InfoTag: React.FC<{ text: string, trans: string }> = ({ text, trans }) => (
@@ -26,7 +31,7 @@ const InfoTag: React.FC<{ text: string, trans: string }> = ({ text, trans }) =>
 
 export const WordList: React.FC<WordListProps> = ({ 
     groupedEntries, selectedWords, toggleSelectGroup, isGroupSelected,
-    showConfig, mergeConfig, searchQuery, ttsSpeed = 1.0, onOpenDetail
+    showConfig, mergeConfig, searchQuery, ttsSpeed = 1.0, onOpenDetail, onUnhideSite, onToggleSubstringMatch, onUpdateGlosses
 }) => {
     
     // Image Preview State
@@ -81,12 +86,12 @@ export const WordList: React.FC<WordListProps> = ({
                           {showConfig.showPhonetic && (primary.phoneticUs || primary.phoneticUk) && (
                             <div className="flex items-center text-sm text-slate-500 space-x-3 font-mono bg-slate-50 px-2 py-1 rounded-lg border border-slate-100">
                               {primary.phoneticUs && (
-                                  <span className="flex items-center cursor-pointer hover:text-blue-600 transition select-none mr-2" title="点击播放美式发音" onClick={(e) => { e.stopPropagation(); playWordAudio(primary.text, 'US', ttsSpeed); }}>
+                                  <span className="flex items-center cursor-pointer hover:text-blue-600 transition select-none mr-2" title="点击播放美式发音" onClick={(e) => { e.stopPropagation(); playWordAudio(primary.text, 'US', ttsSpeed, primary.language); }}>
                                       <span className="text-[10px] mr-1 text-slate-400 font-sans">US</span> {primary.phoneticUs} <PlayCircle className="w-3.5 h-3.5 ml-1 opacity-50 group-hover:opacity-100"/>
                                   </span>
                               )}
                               {primary.phoneticUk && (
-                                  <span className="flex items-center cursor-pointer hover:text-blue-600 transition select-none" title="点击播放英式发音" onClick={(e) => { e.stopPropagation(); playWordAudio(primary.text, 'UK', ttsSpeed); }}>
+                                  <span className="flex items-center cursor-pointer hover:text-blue-600 transition select-none" title="点击播放英式发音" onClick={(e) => { e.stopPropagation(); playWordAudio(primary.text, 'UK', ttsSpeed, primary.language); }}>
                                       <span className="text-[10px] mr-1 text-slate-400 font-sans">UK</span> {primary.phoneticUk} <PlayCircle className="w-3.5 h-3.5 ml-1 opacity-50 group-hover:opacity-100"/>
                                   </span>
                               )}
@@ -124,9 +129,41 @@ export const WordList: React.FC<WordListProps> = ({
                                        <BarChart2 className="w-3 h-3 mr-1"/> #{primary.cocaRank}
                                    </span>
                                ) : null}
+
+                               {/* 子串匹配：释义匹配时不检查中文分词边界 */}
+                               {onToggleSubstringMatch && (() => {
+                                   const allowed = group.every(e => e.allowSubstringMatch);
+                                   return (
+                                       <button
+                                           onClick={() => onToggleSubstringMatch(group.map(e => e.id), !allowed)}
+                                           className={`flex items-center text-[10px] px-1.5 py-0.5 rounded border transition ${allowed ? 'bg-purple-50 text-purple-600 border-purple-200' : 'border-transparent text-slate-300 hover:text-slate-500'}`}
+                                           title={allowed ? '已允许释义在词内命中，点击恢复按分词边界匹配' : '允许释义在词内命中 (不检查分词边界)'}
+                                       >
+                                           <TextCursorInput className="w-3 h-3 mr-1" /> 子串匹配
+                                       </button>
+                                   );
+                               })()}
                            </div>
+
+                           {/* 在气泡中选择 "本站隐藏" 的网站，点击恢复替换 */}
+                           {group.some(e => e.hiddenSites?.length) && (
+                               <div className="flex flex-wrap justify-end gap-1">
+                                   {group.flatMap(e => (e.hiddenSites || []).map(site => (
+                                       <button key={`${e.id}-${site}`} onClick={() => onUnhideSite?.(e.id, site)} className="flex items-center text-[10px] px-1.5 py-0.5 bg-slate-50 text-slate-500 rounded border border-slate-200 hover:border-red-200 hover:text-red-500 transition" title="恢复在该网站替换">
+                                           <EyeOff className="w-3 h-3 mr-1" /> {site} <X className="w-3 h-3 ml-0.5" />
+                                       </button>
+                                   )))}
+                               </div>
+                           )}
                       </div>
                     </div>
+
+                    {/* 匹配释义：由释义规范化生成，可手动编辑 */}
+                    {showConfig.showMeaning && onUpdateGlosses && (
+                        <div className="space-y-1">
+                            {group.map(e => <GlossEditor key={e.id} entry={e} showTranslation={group.length > 1} onSave={onUpdateGlosses} />)}
+                        </div>
+                    )}
                     
                     {/* Media Row: Image & Video */}
                     {(mergeConfig.showImage || mergeConfig.showVideo) && (primary.image || primary.video) && (
@@ -233,15 +270,15 @@ export const WordList: React.FC<WordListProps> = ({
 
                                   if (item.id === 'context' && entry.contextSentence) {
                                     return (
-                                      <div key={`${entry.id}-context`} className="bg-slate-50 p-3.5 rounded-lg border border-slate-100 relative group/ctx cursor-pointer hover:bg-slate-100 transition" onClick={(e) => { e.stopPropagation(); playSentenceAudio(entry.contextSentence!, undefined, 'US', ttsSpeed); }} title="点击朗读例句">
+                                      <div key={`${entry.id}-context`} className="bg-slate-50 p-3.5 rounded-lg border border-slate-100 relative group/ctx cursor-pointer hover:bg-slate-100 transition" onClick={(e) => { e.stopPropagation(); playSentenceAudio(entry.contextSentence!, undefined, 'US', ttsSpeed, entry.language); }} title="点击朗读例句">
                                         <div className="absolute left-0 top-3 w-1 h-8 bg-blue-500 rounded-r"></div>
                                         {idx === 0 && <span className="text-[10px] font-bold text-slate-400 uppercase block mb-1.5 pl-2">来源原句 (Context)</span>}
                                         <p className="text-sm text-slate-700 leading-relaxed pl-2 mb-2">{entry.contextSentence}</p>
                                         {mergeConfig.showContextTranslation && entry.contextSentenceTranslation && (<p className="text-xs text-slate-500 pl-2 mt-1">{entry.contextSentenceTranslation}</p>)}
                                         {entry.sourceUrl && (
                                           <div className="pl-2 mt-2 pt-2 border-t border-slate-200/50 flex items-center gap-3">
-                                            <a href={entry.sourceUrl} target="_blank" rel="noopener noreferrer" onClick={e => e.stopPropagation()} className="flex items-center text-xs text-blue-600 hover:underline">
-                                              <MapPin className="w-3 h-3 mr-1" /> 来源 {group.length > 1 && `#${idx + 1}`} <ExternalLink className="w-3 h-3 ml-1 opacity-50" />
+                                            <a href={buildTimestampUrl(entry.sourceUrl, entry.sourceTimestamp)} target="_blank" rel="noopener noreferrer" onClick={e => e.stopPropagation()} className="flex items-center text-xs text-blue-600 hover:underline">
+                                              <MapPin className="w-3 h-3 mr-1" /> 来源 {group.length > 1 && `#${idx + 1}`} {entry.sourceTimestamp !== undefined && `· ${formatTimestamp(entry.sourceTimestamp)}`} <ExternalLink className="w-3 h-3 ml-1 opacity-50" />
                                             </a>
                                             <span className="text-[10px] text-slate-400 ml-auto">{new Date(entry.addedAt).toLocaleDateString()}</span>
                                           </div>
@@ -251,7 +288,7 @@ export const WordList: React.FC<WordListProps> = ({
                                   }
                                   if (item.id === 'mixed' && entry.mixedSentence) {
                                      return (
-                                       <div key={`${entry.id}-mixed`} className="bg-slate-50 p-3.5 rounded-lg border border-slate-100 relative cursor-pointer hover:bg-slate-100 transition" onClick={(e) => { e.stopPropagation(); playSentenceAudio(entry.mixedSentence!, undefined, 'US', ttsSpeed); }} title="点击朗读例句">
+                                       <div key={`${entry.id}-mixed`} className="bg-slate-50 p-3.5 rounded-lg border border-slate-100 relative cursor-pointer hover:bg-slate-100 transition" onClick={(e) => { e.stopPropagation(); playSentenceAudio(entry.mixedSentence!, undefined, 'US', ttsSpeed, entry.language); }} title="点击朗读例句">
                                           <div className="absolute left-0 top-3 w-1 h-8 bg-purple-500 rounded-r"></div>
                                          {idx === 0 && <span className="text-[10px] font-bold text-slate-400 uppercase block mb-1.5 pl-2">中英混合 (Mixed)</span>}
                                          <p className="text-sm text-slate-700 leading-relaxed pl-2">{entry.mixedSentence}</p>
@@ -260,7 +297,7 @@ export const WordList: React.FC<WordListProps> = ({
                                   }
                                   if (item.id === 'dictionary' && entry.dictionaryExample) {
                                      return (
-                                        <div key={`${entry.id}-dictionary`} className="bg-slate-50 p-3.5 rounded-lg border border-slate-100 relative cursor-pointer hover:bg-slate-100 transition" onClick={(e) => { e.stopPropagation(); playSentenceAudio(entry.dictionaryExample!, undefined, 'US', ttsSpeed); }} title="点击朗读例句">
+                                        <div key={`${entry.id}-dictionary`} className="bg-slate-50 p-3.5 rounded-lg border border-slate-100 relative cursor-pointer hover:bg-slate-100 transition" onClick={(e) => { e.stopPropagation(); playSentenceAudio(entry.dictionaryExample!, undefined, 'US', ttsSpeed, entry.language); }} title="点击朗读例句">
                                           <div className="absolute left-0 top-3 w-1 h-8 bg-emerald-500 rounded-r"></div>
                                           {idx === 0 && <span className="text-[10px] font-bold text-slate-400 uppercase block mb-1.5 pl-2">词典例句 (Dictionary)</span>}
                                           <p className="text-sm text-slate-600 italic leading-relaxed pl-2">{entry.dictionaryExample}</p>
@@ -52,6 +52,7 @@ export const DEFAULT_STYLE: StyleConfig = {
   vertical: DEFAULT_VERTICAL,
   densityMode: 'percent',
   densityValue: 100,
+  densityStrategy: 'first',
 };
 
 export const DEFAULT_ORIGINAL_TEXT_CONFIG: OriginalTextConfig = {
@@ -156,6 +157,18 @@ export const DEFAULT_WORD_INTERACTION: WordInteractionConfig = {
   autoPronounceCount: 1,
   dismissDelay: 300,
   allowMultipleBubbles: false,
+  selectionLookup: true,
+  keyboardNavigation: {
+    enabled: false, // 默认关闭，避免占用网页自身的 Alt 快捷键
+    shortcuts: {
+      next: { modifier: 'Alt', code: 'KeyJ' },
+      prev: { modifier: 'Alt', code: 'KeyK' },
+      toggleBubble: { modifier: 'Alt', code: 'KeyL' },
+      pronounce: { modifier: 'Alt', code: 'KeyP' },
+      promote: { modifier: 'Alt', code: 'ArrowUp' },
+      demote: { modifier: 'Alt', code: 'ArrowDown' },
+    },
+  },
   onlineDictUrl: '',
 };
 
@@ -203,8 +216,16 @@ export const DEFAULT_AUTO_TRANSLATE: AutoTranslateConfig = {
   translateWholePage: false,
   matchInflections: true,
   aggressiveMode: false,
+  englishAnnotation: false,
+  subtitleMode: false,
+  learningLanguage: 'en',
+  maxConcurrentRequests: 2,
+  minGlossLength: 1,
   blacklist: ['google.com', 'baidu.com'], 
   whitelist: ['nytimes.com', 'medium.com'],
+  whitelistOnly: false,
+  siteProfiles: [],
+  contentRules: [],
   ttsSpeed: 1.0,
 };
 
@@ -1,12 +1,61 @@
 import { defineBackground } from 'wxt/sandbox';
 import { browser } from 'wxt/browser';
-import { callTencentTranslation, callNiuTransTranslation, callDeepLTranslation, translateWithEngine } from '../utils/api';
+import { callTencentTranslation, callNiuTransTranslation, callDeepLTranslation, translateWithEngine, translateSentencesWithEngine } from '../utils/api';
 import { dictionariesStorage } from '../utils/storage';
-import { RichDictionaryResult, DictionaryMeaningCard, PhraseItem, SynonymItem } from '../types';
+import { clearTranslationCache, getTranslationCacheStats } from '../utils/translation-cache';
+import { recordExposureEvents, getExposureStats, ExposureEvent } from '../utils/exposure-store';
+import { getCachedLookup, setCachedLookup, isDictionaryRecordFresh, invalidateDictionaryCache, getDictionaryCacheStats } from '../utils/dictionary-cache';
+import { getLanguageProfile } from '../utils/languages';
+import { RichDictionaryResult, DictionaryMeaningCard, PhraseItem, SynonymItem, TranslationEngine, LearningLanguage } from '../types';
+
+// 后台可处理的消息，按 action 区分各自携带的参数
+type BackgroundMessage =
+  | { action: 'TRANSLATE_TEXT'; engine: TranslationEngine; text: string; target?: string }
+  | { action: 'TRANSLATE_SENTENCES'; engine: TranslationEngine; sentences: string[]; target?: string }
+  | { action: 'LOOKUP_WORD_RICH' | 'LOOKUP_WORD_RAW'; text: string; language?: LearningLanguage; forceRefresh?: boolean }
+  | { action: 'SUGGEST_WORD'; text: string; language?: LearningLanguage }
+  | { action: 'GET_TRANSLATION_CACHE_STATS' }
+  | { action: 'CLEAR_TRANSLATION_CACHE' }
+  | { action: 'GET_DICTIONARY_CACHE_STATS' }
+  | { action: 'CLEAR_DICTIONARY_CACHE'; text?: string }
+  | { action: 'RECORD_EXPOSURE_EVENTS'; events?: ExposureEvent[] }
+  | { action: 'GET_EXPOSURE_STATS'; entryIds?: string[] }
+  | { action: 'OPEN_OPTIONS_PAGE'; path: string };
 
 export default defineBackground(() => {
   browser.runtime.onInstalled.addListener(() => {
     console.log('ContextLingo Extension Installed');
+
+    // 右键菜单：划词添加单词，选取页面元素作为正文/排除区域
+    const pageContexts: any[] = ['page', 'selection', 'link', 'image'];
+    browser.contextMenus.removeAll().then(() => {
+      browser.contextMenus.create({ id: 'context-lingo-root', title: 'Re-Word', contexts: pageContexts });
+      browser.contextMenus.create({ id: 'add-selection', parentId: 'context-lingo-root', title: '添加 “%s” 到 Re-Word', contexts: ['selection'] });
+      browser.contextMenus.create({ id: 'pick-include', parentId: 'context-lingo-root', title: '选取正文区域', contexts: pageContexts });
+      browser.contextMenus.create({ id: 'pick-exclude', parentId: 'context-lingo-root', title: '选取排除区域', contexts: pageContexts });
+    });
+  });
+
+  // 内容脚本回复本页在黑名单中时，在扩展图标上短暂提示，避免快捷键/菜单看起来毫无反应
+  const notifyIfBlocked = (tabId: number, response: any) => {
+    if (response?.status !== 'blocked') return;
+    browser.action.setBadgeText({ tabId, text: 'OFF' });
+    browser.action.setBadgeBackgroundColor({ tabId, color: '#94a3b8' });
+    setTimeout(() => browser.action.setBadgeText({ tabId, text: '' }), 2000);
+  };
+
+  browser.contextMenus.onClicked.addListener((info, tab) => {
+    if (!tab?.id) return;
+    if (info.menuItemId === 'add-selection' && info.selectionText) {
+      // 未注入内容脚本的页面 (chrome://、应用商店、PDF 等) 无人接收，忽略发送失败
+      browser.tabs.sendMessage(tab.id, { action: 'LOOKUP_SELECTION', text: info.selectionText }).catch(() => {});
+    }
+    if (info.menuItemId === 'pick-include' || info.menuItemId === 'pick-exclude') {
+      const tabId = tab.id;
+      browser.tabs.sendMessage(tabId, { action: 'START_ELEMENT_PICKER', mode: info.menuItemId === 'pick-include' ? 'include' : 'exclude' })
+        .then(response => notifyIfBlocked(tabId, response))
+        .catch(() => {});
+    }
   });
 
   browser.action.onClicked.addListener(() => {
@@ -18,7 +67,10 @@ export default defineBackground(() => {
     if (command === 'translate-page') {
       browser.tabs.query({ active: true, currentWindow: true }).then((tabs) => {
         if (tabs[0]?.id) {
-          browser.tabs.sendMessage(tabs[0].id, { action: 'TRIGGER_TRANSLATION' });
+          const tabId = tabs[0].id;
+          browser.tabs.sendMessage(tabId, { action: 'TRIGGER_TRANSLATION' })
+            .then(response => notifyIfBlocked(tabId, response))
+            .catch(() => {});
         }
       });
     }
@@ -222,22 +274,34 @@ export default defineBackground(() => {
       return { text: safeString(data.simple?.word?.[0]?.['return-phrase'] || data.input), phoneticUs, phoneticUk, inflections, phrases, roots, synonyms, images, video, meanings, expandEcMeanings, ecMeanings, source };
   };
 
-  const fetchAndParse = async (word: string): Promise<RichDictionaryResult | null> => {
+  /**
+   * 查询有道词典：优先使用未过期的缓存，网络请求失败时退回过期缓存 (离线可用)
+   * forceRefresh 跳过缓存重新请求
+   */
+  const lookupDictionary = async (word: string, language?: string, forceRefresh: boolean = false): Promise<{ raw: any, result: RichDictionaryResult } | null> => {
       const dictionaries = await dictionariesStorage.getValue();
       const youdao = dictionaries.find(d => d.id === 'youdao' && d.isEnabled) || dictionaries.find(d => d.id === 'youdao');
-      if (youdao) {
-          try {
-              const res = await fetch(`https://dict.youdao.com/jsonapi?q=${encodeURIComponent(word)}`);
-              if (res.ok) {
-                  const data = await res.json();
-                  return parseYoudaoDeep(data);
-              }
-          } catch (e) { console.warn(`Dict Youdao error`, e); }
-      }
-      return null;
+      // 有道不支持的语种 (如德语、西班牙语) 直接返回空结果，避免按英语误查
+      const profile = getLanguageProfile(language);
+      if (!youdao || !profile.youdaoLe) return null;
+
+      const cached = await getCachedLookup(word, profile.youdaoLe).catch(() => null);
+      if (cached && !forceRefresh && isDictionaryRecordFresh(cached)) return { raw: cached.raw, result: cached.result };
+      try {
+          const le = profile.code === 'en' ? '' : `&le=${profile.youdaoLe}`;
+          const res = await fetch(`https://dict.youdao.com/jsonapi?q=${encodeURIComponent(word)}${le}`);
+          if (res.ok) {
+              const raw = await res.json();
+              const result = parseYoudaoDeep(raw);
+              setCachedLookup(word, profile.youdaoLe, raw, result).catch(e => console.warn('Dictionary cache write failed', e));
+              return { raw, result };
+          }
+      } catch (e) { console.warn(`Dict Youdao error`, e); }
+      return cached ? { raw: cached.raw, result: cached.result } : null;
   };
 
-  browser.runtime.onMessage.addListener((message, sender, sendResponse) => {
+  browser.runtime.onMessage.addListener((rawMessage, sender, sendResponse) => {
+    const message = rawMessage as BackgroundMessage;
     if (message.action === 'TRANSLATE_TEXT') {
       (async () => {
         try {
@@ -252,11 +316,39 @@ export default defineBackground(() => {
       return true; 
     }
 
+    // 逐句翻译：返回与原句一一对应的译文及各句对齐状态
+    if (message.action === 'TRANSLATE_SENTENCES') {
+      (async () => {
+        try {
+          const result = await translateSentencesWithEngine(message.engine, message.sentences, message.target);
+          sendResponse({ success: true, data: result });
+        } catch (error: any) {
+          console.error("[Background] Sentence translation failed:", error);
+          sendResponse({ success: false, error: error.message || String(error) });
+        }
+      })();
+      return true;
+    }
+
     if (message.action === 'LOOKUP_WORD_RICH') {
       (async () => {
         try {
-          const result = await fetchAndParse(message.text);
-          if (result) sendResponse({ success: true, data: result });
+          const lookup = await lookupDictionary(message.text, message.language, !!message.forceRefresh);
+          if (lookup) sendResponse({ success: true, data: lookup.result });
+          else sendResponse({ success: false, error: "未找到单词数据" });
+        } catch (error: any) {
+          sendResponse({ success: false, error: error.message || String(error) });
+        }
+      })();
+      return true;
+    }
+
+    // 单词详情页：有道原始 JSON
+    if (message.action === 'LOOKUP_WORD_RAW') {
+      (async () => {
+        try {
+          const lookup = await lookupDictionary(message.text, message.language, !!message.forceRefresh);
+          if (lookup) sendResponse({ success: true, data: lookup.raw });
           else sendResponse({ success: false, error: "未找到单词数据" });
         } catch (error: any) {
           sendResponse({ success: false, error: error.message || String(error) });
@@ -268,7 +360,9 @@ export default defineBackground(() => {
     if (message.action === 'SUGGEST_WORD') {
       (async () => {
           try {
-            const response = await fetch(`https://dict.youdao.com/suggest?num=5&ver=3.0&doctype=json&cache=false&le=en&q=${encodeURIComponent(message.text)}`);
+            const le = getLanguageProfile(message.language).youdaoLe;
+            if (!le) { sendResponse({ success: true, data: [] }); return; }
+            const response = await fetch(`https://dict.youdao.com/suggest?num=5&ver=3.0&doctype=json&cache=false&le=${le}&q=${encodeURIComponent(message.text)}`);
             if (response.ok) {
                 const data = await response.json();
                 const mappedEntries = data.data?.entries?.map((item: any) => ({ entry: item.entry, explanation: item.explain })) || [];
@@ -281,6 +375,50 @@ export default defineBackground(() => {
       return true;
     }
 
+    if (message.action === 'GET_TRANSLATION_CACHE_STATS') {
+      getTranslationCacheStats()
+        .then(stats => sendResponse({ success: true, data: stats }))
+        .catch((error: any) => sendResponse({ success: false, error: error.message || String(error) }));
+      return true;
+    }
+
+    if (message.action === 'CLEAR_TRANSLATION_CACHE') {
+      clearTranslationCache()
+        .then(() => sendResponse({ success: true }))
+        .catch((error: any) => sendResponse({ success: false, error: error.message || String(error) }));
+      return true;
+    }
+
+    if (message.action === 'GET_DICTIONARY_CACHE_STATS') {
+      getDictionaryCacheStats()
+        .then(stats => sendResponse({ success: true, data: stats }))
+        .catch((error: any) => sendResponse({ success: false, error: error.message || String(error) }));
+      return true;
+    }
+
+    // 传入 text 时只清除该单词的缓存
+    if (message.action === 'CLEAR_DICTIONARY_CACHE') {
+      invalidateDictionaryCache(message.text)
+        .then(() => sendResponse({ success: true }))
+        .catch((error: any) => sendResponse({ success: false, error: error.message || String(error) }));
+      return true;
+    }
+
+    // 内容脚本批量上报的单词曝光/交互事件
+    if (message.action === 'RECORD_EXPOSURE_EVENTS') {
+      recordExposureEvents(message.events || [])
+        .then(() => sendResponse({ success: true }))
+        .catch((error: any) => sendResponse({ success: false, error: error.message || String(error) }));
+      return true;
+    }
+
+    if (message.action === 'GET_EXPOSURE_STATS') {
+      getExposureStats(message.entryIds)
+        .then(stats => sendResponse({ success: true, data: stats }))
+        .catch((error: any) => sendResponse({ success: false, error: error.message || String(error) }));
+      return true;
+    }
+
     if (message.action === 'OPEN_OPTIONS_PAGE') {
         const url = (browser.runtime as any).getURL(message.path);
         browser.tabs.create({ url });
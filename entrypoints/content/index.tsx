@@ -3,24 +3,61 @@ import ReactDOM from 'react-dom/client';
 import React, { useState, useEffect, useRef } from 'react';
 import { PageWidget } from '../../components/PageWidget';
 import { WordBubble } from '../../components/WordBubble';
+import { SelectionLookup, SelectionLookupButton } from '../../components/SelectionLookup';
 import '../../index.css'; 
+import { DEFAULT_WORD_INTERACTION, DEFAULT_AUTO_TRANSLATE } from '../../constants';
 import { entriesStorage, pageWidgetConfigStorage, autoTranslateConfigStorage, stylesStorage, originalTextConfigStorage, enginesStorage, interactionConfigStorage } from '../../utils/storage';
-import { WordEntry, PageWidgetConfig, WordInteractionConfig, WordCategory, AutoTranslateConfig, ModifierKey, StyleConfig, OriginalTextConfig } from '../../types';
+import { WordEntry, PageWidgetConfig, WordInteractionConfig, WordCategory, AutoTranslateConfig, ModifierKey, StyleConfig, OriginalTextConfig, TranslationEngine, RichDictionaryResult, DictionaryMeaningCard, KeyboardAction } from '../../types';
 import { defineContentScript } from 'wxt/sandbox';
 import { createShadowRootUi } from 'wxt/client';
 import { findFuzzyMatches, findAggressiveMatches } from '../../utils/matching';
+import { MatchIndex } from '../../utils/match-index';
 import { buildReplacementHtml } from '../../utils/dom-builder';
+import { applyDensityFilter } from '../../utils/density';
+import { resolveSiteSettings, isEntryHiddenOnSite } from '../../utils/site-profile';
+import { detectMainContent, getContentSelectors, matchesAnySelector, queryAllSelectors, isLinkCluster } from '../../utils/content-extraction';
+import { startElementPicker, ElementPickerMode } from '../../utils/element-picker';
+import { getFrameDocument, getEventTarget, getRectInTopWindow, querySelectorAllDeep } from '../../utils/dom-roots';
 import { browser } from 'wxt/browser';
-import { preloadVoices, unlockAudio } from '../../utils/audio';
+import { preloadVoices, unlockAudio, playWordAudio } from '../../utils/audio';
 import { splitTextIntoSentences, normalizeEnglishText } from '../../utils/text-processing';
+import { SentenceTranslationResult } from '../../utils/sentence-alignment';
+import { isEnglishText, findEnglishMatches, getPrimaryGloss } from '../../utils/annotation';
+import { getEntryGlosses, withGlosses } from '../../utils/gloss';
+import { DEFAULT_LEARNING_LANGUAGE, getEntryLanguage } from '../../utils/languages';
+import { captureSelectionContext, captureElementContext, buildMixedSentence, isLookupCandidate, SelectionContext, BlockSentences } from '../../utils/selection-context';
+import { buildEntryFromCard } from '../../utils/dictionary-service';
+import { SUBTITLE_SELECTOR, PLAYER_SELECTOR, renderTrackSubtitles } from '../../utils/subtitles';
+import { createExposureTracker } from '../../utils/exposure';
+import { ExposureEventType } from '../../utils/exposure-store';
+import { findAdjacentTarget, setTargetFocus, clearTargetFocus, matchesShortcut, isEditableTarget, shiftCategory } from '../../utils/keyboard-navigation';
 
 interface ContentOverlayProps {
   initialWidgetConfig: PageWidgetConfig;
   initialEntries: WordEntry[];
   initialInteractionConfig: WordInteractionConfig;
   initialAutoTranslateConfig: AutoTranslateConfig; 
+  translateSentences: (sentences: string[], target: string) => Promise<SentenceTranslationResult | null>;
+  trackExposure: (entryId: string, type: ExposureEventType) => void;
+  matchIndex: MatchIndex;
+  isTranslationActive: () => boolean; // 页面当前是否处于翻译状态 (键盘导航仅在此时拦截快捷键)
 }
 
+// 已接入扫描的同源 iframe 文档：iframe 内的事件不会冒泡到顶层文档，浮层需分别监听
+const frameDocuments = new Set<Document>();
+const frameDocumentListeners = new Set<(doc: Document) => void>();
+const registerFrameDocument = (doc: Document) => {
+    if (frameDocuments.has(doc)) return;
+    frameDocuments.add(doc);
+    frameDocumentListeners.forEach(listener => listener(doc));
+};
+
+// 已翻译文本块的逐句原文与译文，划词时据此定位所在句子
+const blockSentences = new WeakMap<Element, BlockSentences>();
+
+// 划词上下文中段落过长时只翻译所在句子
+const MAX_CONTEXT_PARAGRAPH_LENGTH = 600;
+
 interface ActiveBubble {
     id: string; 
     entry: WordEntry;
@@ -33,7 +70,11 @@ const ContentOverlay: React.FC<ContentOverlayProps> = ({
     initialWidgetConfig, 
     initialEntries, 
     initialInteractionConfig,
-    initialAutoTranslateConfig 
+    initialAutoTranslateConfig,
+    translateSentences,
+    trackExposure,
+    matchIndex,
+    isTranslationActive
 }) => {
   const [widgetConfig, setWidgetConfig] = useState(initialWidgetConfig);
   const [interactionConfig, setInteractionConfig] = useState(initialInteractionConfig);
@@ -41,20 +82,39 @@ const ContentOverlay: React.FC<ContentOverlayProps> = ({
   const [entries, setEntries] = useState(initialEntries);
   const [pageWords, setPageWords] = useState<WordEntry[]>([]);
   const [activeBubbles, setActiveBubbles] = useState<ActiveBubble[]>([]);
+  const [selectionButton, setSelectionButton] = useState<{ range: Range, rect: DOMRect } | null>(null);
+  const [selectionLookup, setSelectionLookup] = useState<{ context: SelectionContext, rect: DOMRect } | null>(null);
+  const [keyboardToast, setKeyboardToast] = useState<string | null>(null);
   
   const showTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
   const hideTimers = useRef<Map<string, ReturnType<typeof setTimeout>>>(new Map());
   const interactionConfigRef = useRef(interactionConfig);
   const entriesRef = useRef(entries);
+  const autoTranslateConfigRef = useRef(autoTranslateConfig);
+  const activeBubblesRef = useRef(activeBubbles);
+  // 键盘导航当前聚焦的替换词，以及是否由键盘打开了它的气泡
+  const focusedTargetRef = useRef<HTMLElement | null>(null);
+  const keyboardBubbleRef = useRef(false);
+  const toastTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
   
   useEffect(() => { interactionConfigRef.current = interactionConfig; }, [interactionConfig]);
+  useEffect(() => { activeBubblesRef.current = activeBubbles; }, [activeBubbles]);
   useEffect(() => { entriesRef.current = entries; }, [entries]);
+  useEffect(() => { autoTranslateConfigRef.current = autoTranslateConfig; }, [autoTranslateConfig]);
 
   useEffect(() => {
     const unsubs = [
         pageWidgetConfigStorage.watch(v => v && setWidgetConfig(v)),
         interactionConfigStorage.watch(v => v && setInteractionConfig(v)),
-        entriesStorage.watch(v => v && setEntries(v)),
+        entriesStorage.watch(v => {
+            if (!v) return;
+            setEntries(v);
+            // 已打开的气泡同步最新词条，词条被删除时关闭
+            setActiveBubbles(prev => prev.flatMap(b => {
+                const entry = v.find(e => e.id === b.id);
+                return entry ? [{ ...b, entry }] : [];
+            }));
+        }),
         autoTranslateConfigStorage.watch(v => v && setAutoTranslateConfig(v)) 
     ];
     return () => unsubs.forEach(u => u());
@@ -62,15 +122,21 @@ const ContentOverlay: React.FC<ContentOverlayProps> = ({
 
   useEffect(() => {
       const scanRelevant = () => {
-          const text = document.body.innerText;
-          const matched = entries.filter(e => {
-              const defs = e.translation?.split(/[,;，；/]/) || [];
-              return defs.some(d => d.length > 0 && text.includes(d));
-          });
+          const text = [document, ...frameDocuments].map(d => d.body?.innerText || '').join('\n');
+          const language = autoTranslateConfig.learningLanguage || DEFAULT_LEARNING_LANGUAGE;
+          const learningEntries = entries.filter(e => getEntryLanguage(e) === language && !isEntryHiddenOnSite(e, window.location));
+          const learningIds = new Set(learningEntries.map(e => e.id));
+          matchIndex.sync(entries);
+          // 英文标注模式下，原文中直接出现的单词 (含词态变化) 同样计入本页词汇
+          const englishIds = autoTranslateConfig.englishAnnotation && language === 'en'
+              ? new Set(findEnglishMatches(text, matchIndex, e => learningIds.has(e.id)).map(m => m.entry.id))
+              : new Set<string>();
+          const glossIds = new Set(matchIndex.searchGlosses(text, e => learningIds.has(e.id)).flatMap(hit => hit.entries.map(e => e.id)));
+          const matched = learningEntries.filter(e => englishIds.has(e.id) || glossIds.has(e.id));
           setPageWords(matched);
       };
       scanRelevant();
-  }, [entries]);
+  }, [entries, autoTranslateConfig.englishAnnotation, autoTranslateConfig.learningLanguage]);
 
   useEffect(() => {
       const handleUserInteraction = () => {
@@ -101,6 +167,7 @@ const ContentOverlay: React.FC<ContentOverlayProps> = ({
           clearTimeout(hideTimers.current.get(entry.id)!);
           hideTimers.current.delete(entry.id);
       }
+      trackExposure(entry.id, 'hover');
 
       setActiveBubbles(prev => {
           const exists = prev.find(b => b.id === entry.id);
@@ -125,8 +192,7 @@ const ContentOverlay: React.FC<ContentOverlayProps> = ({
 
   useEffect(() => {
      const handleMouseOver = (e: MouseEvent) => {
-         const target = e.target as HTMLElement;
-         const entryEl = target.closest('[data-entry-id]') as HTMLElement;
+         const entryEl = getEventTarget(e)?.closest('[data-entry-id]') as HTMLElement;
          if (entryEl) {
              const id = entryEl.getAttribute('data-entry-id');
              const originalText = entryEl.getAttribute('data-original-text') || '';
@@ -140,7 +206,7 @@ const ContentOverlay: React.FC<ContentOverlayProps> = ({
                      if (checkModifier(e, interactionConfigRef.current.mainTrigger.modifier)) {
                          if (showTimer.current) clearTimeout(showTimer.current);
                          showTimer.current = setTimeout(() => {
-                            addBubble(entry, originalText, entryEl.getBoundingClientRect(), entryEl);
+                            addBubble(entry, originalText, getRectInTopWindow(entryEl), entryEl);
                          }, interactionConfigRef.current.mainTrigger.delay);
                      }
                  }
@@ -149,8 +215,7 @@ const ContentOverlay: React.FC<ContentOverlayProps> = ({
      };
 
      const handleMouseOut = (e: MouseEvent) => {
-        const target = e.target as HTMLElement;
-        const entryEl = target.closest('[data-entry-id]');
+        const entryEl = getEventTarget(e)?.closest('[data-entry-id]');
         if (entryEl) {
             const id = entryEl.getAttribute('data-entry-id');
             if (showTimer.current) { clearTimeout(showTimer.current); showTimer.current = null; }
@@ -160,8 +225,7 @@ const ContentOverlay: React.FC<ContentOverlayProps> = ({
 
      const handleTriggerEvent = (e: MouseEvent, actionType: 'Click' | 'DoubleClick' | 'RightClick') => {
          const config = interactionConfigRef.current;
-         const target = e.target as HTMLElement;
-         const entryEl = target.closest('[data-entry-id]') as HTMLElement;
+         const entryEl = getEventTarget(e)?.closest('[data-entry-id]') as HTMLElement;
          
          if (entryEl) {
             const id = entryEl.getAttribute('data-entry-id');
@@ -171,7 +235,7 @@ const ContentOverlay: React.FC<ContentOverlayProps> = ({
             if (entry) {
                 if (config.mainTrigger.action === actionType && checkModifier(e, config.mainTrigger.modifier)) {
                     if (actionType === 'RightClick') e.preventDefault();
-                    addBubble(entry, originalText, entryEl.getBoundingClientRect(), entryEl);
+                    addBubble(entry, originalText, getRectInTopWindow(entryEl), entryEl);
                 } else if (config.quickAddTrigger.action === actionType && checkModifier(e, config.quickAddTrigger.modifier)) {
                     if (actionType === 'RightClick') e.preventDefault();
                     handleCaptureAndAdd(entry.id, entryEl);
@@ -180,18 +244,308 @@ const ContentOverlay: React.FC<ContentOverlayProps> = ({
          }
      };
 
-     document.addEventListener('mouseover', handleMouseOver);
-     document.addEventListener('mouseout', handleMouseOut);
-     document.addEventListener('click', e => handleTriggerEvent(e, 'Click'));
-     document.addEventListener('dblclick', e => handleTriggerEvent(e, 'DoubleClick'));
-     document.addEventListener('contextmenu', e => handleTriggerEvent(e, 'RightClick'));
+     const handleClick = (e: MouseEvent) => handleTriggerEvent(e, 'Click');
+     const handleDoubleClick = (e: MouseEvent) => handleTriggerEvent(e, 'DoubleClick');
+     const handleContextMenu = (e: MouseEvent) => handleTriggerEvent(e, 'RightClick');
+
+     // 顶层文档与已接入的 iframe 文档使用同一套事件委托
+     const attach = (doc: Document) => {
+         doc.addEventListener('mouseover', handleMouseOver);
+         doc.addEventListener('mouseout', handleMouseOut);
+         doc.addEventListener('click', handleClick);
+         doc.addEventListener('dblclick', handleDoubleClick);
+         doc.addEventListener('contextmenu', handleContextMenu);
+     };
+     const detach = (doc: Document) => {
+         doc.removeEventListener('mouseover', handleMouseOver);
+         doc.removeEventListener('mouseout', handleMouseOut);
+         doc.removeEventListener('click', handleClick);
+         doc.removeEventListener('dblclick', handleDoubleClick);
+         doc.removeEventListener('contextmenu', handleContextMenu);
+     };
+     attach(document);
+     frameDocuments.forEach(attach);
+     frameDocumentListeners.add(attach);
 
      return () => {
-         document.removeEventListener('mouseover', handleMouseOver);
-         document.removeEventListener('mouseout', handleMouseOut);
+         frameDocumentListeners.delete(attach);
+         detach(document);
+         frameDocuments.forEach(detach);
      };
   }, []);
 
+  const openSelectionLookup = (range: Range | null, text: string) => {
+      const context = range
+          ? captureSelectionContext(range, block => blockSentences.get(block))
+          : { text: text.trim(), sentence: '', paragraph: '', sourceUrl: window.location.href };
+      // 右键菜单找不到选区时，面板显示在页面顶部
+      const rect = range ? getRectInTopWindow(range) : new DOMRect(Math.max(10, window.innerWidth / 2 - 160), 50, 0, 0);
+      setSelectionButton(null);
+      setSelectionLookup({ context, rect });
+  };
+
+  // 划词查词：选中外文单词后显示查词按钮；右键菜单 "添加到 Re-Word" 直接打开查词面板
+  useEffect(() => {
+      const isFromOverlay = (e: Event) => e.composedPath().some(n => (n as Element).tagName === 'CONTEXT-LINGO-UI');
+
+      const handleSelectionMouseUp = (e: MouseEvent) => {
+          if (interactionConfigRef.current.selectionLookup === false || isFromOverlay(e)) return;
+          if (getEventTarget(e)?.closest('[data-entry-id]')) return;
+          const doc = e.currentTarget as Document;
+          // 等待浏览器完成选区更新 (点击选区内部会在 mouseup 之后取消选中)
+          setTimeout(() => {
+              const selection = doc.getSelection();
+              const language = autoTranslateConfigRef.current.learningLanguage || DEFAULT_LEARNING_LANGUAGE;
+              if (!selection || selection.isCollapsed || selection.rangeCount === 0 || !isLookupCandidate(selection.toString(), language)) {
+                  setSelectionButton(null);
+                  return;
+              }
+              const range = selection.getRangeAt(0).cloneRange();
+              setSelectionButton({ range, rect: getRectInTopWindow(range) });
+          }, 0);
+      };
+      const handleSelectionMouseDown = (e: MouseEvent) => {
+          if (isFromOverlay(e)) return;
+          setSelectionButton(null);
+          setSelectionLookup(null);
+      };
+      const handleSelectionKeyDown = (e: KeyboardEvent) => {
+          if (e.key === 'Escape') {
+              setSelectionButton(null);
+              setSelectionLookup(null);
+          }
+      };
+      const hideSelectionButton = () => setSelectionButton(null);
+
+      const attach = (doc: Document) => {
+          doc.addEventListener('mouseup', handleSelectionMouseUp);
+          doc.addEventListener('mousedown', handleSelectionMouseDown);
+          doc.addEventListener('keydown', handleSelectionKeyDown);
+      };
+      const detach = (doc: Document) => {
+          doc.removeEventListener('mouseup', handleSelectionMouseUp);
+          doc.removeEventListener('mousedown', handleSelectionMouseDown);
+          doc.removeEventListener('keydown', handleSelectionKeyDown);
+      };
+      attach(document);
+      frameDocuments.forEach(attach);
+      frameDocumentListeners.add(attach);
+      window.addEventListener('scroll', hideSelectionButton, true);
+
+      const handleMessage = (message: any) => {
+          if (message?.action !== 'LOOKUP_SELECTION' || !message.text) return;
+          const normalized = message.text.replace(/\s+/g, ' ').trim();
+          let range: Range | null = null;
+          for (const doc of [document, ...frameDocuments]) {
+              const selection = doc.getSelection();
+              if (selection && selection.rangeCount > 0 && selection.toString().replace(/\s+/g, ' ').trim() === normalized) {
+                  range = selection.getRangeAt(0).cloneRange();
+                  break;
+              }
+          }
+          openSelectionLookup(range, normalized);
+      };
+      browser.runtime.onMessage.addListener(handleMessage);
+
+      return () => {
+          browser.runtime.onMessage.removeListener(handleMessage);
+          window.removeEventListener('scroll', hideSelectionButton, true);
+          frameDocumentListeners.delete(attach);
+          detach(document);
+          frameDocuments.forEach(detach);
+      };
+  }, []);
+
+  const showKeyboardToast = (text: string) => {
+      if (toastTimer.current) clearTimeout(toastTimer.current);
+      setKeyboardToast(text);
+      toastTimer.current = setTimeout(() => setKeyboardToast(null), 1500);
+  };
+
+  const updateEntry = async (id: string, updates: Partial<WordEntry>) => {
+      const allEntries = await entriesStorage.getValue();
+      const updated = allEntries.map(e => e.id === id ? withGlosses({ ...e, ...updates }) : e);
+      await entriesStorage.setValue(updated);
+      setEntries(updated);
+  };
+
+  /**
+   * 修改词条分类：改为正在学时与快速添加一致，同时采集上下文
+   */
+  const handleChangeCategory = async (id: string, category: WordCategory, targetEl?: Element) => {
+      if (category === WordCategory.LearningWord) await handleCaptureAndAdd(id, targetEl);
+      else await updateEntry(id, { category });
+  };
+
+  const handleUpdateTranslation = (id: string, translation: string) => updateEntry(id, { translation });
+
+  // 本站隐藏：记录当前域名，页面上的替换由 storage 监听统一撤销
+  const handleHideOnSite = async (id: string) => {
+      const entry = entriesRef.current.find(e => e.id === id);
+      if (!entry) return;
+      const host = window.location.hostname.replace(/^www\./, '');
+      setActiveBubbles(prev => prev.filter(b => b.id !== id));
+      await updateEntry(id, { hiddenSites: Array.from(new Set([...(entry.hiddenSites || []), host])) });
+  };
+
+  const handleDeleteEntry = async (id: string) => {
+      const allEntries = await entriesStorage.getValue();
+      const updated = allEntries.filter(e => e.id !== id);
+      await entriesStorage.setValue(updated);
+      setEntries(updated);
+  };
+
+  /**
+   * 键盘升降分类
+   */
+  const shiftEntryCategory = async (id: string, direction: 1 | -1, targetEl: HTMLElement) => {
+      const targetEntry = entriesRef.current.find(e => e.id === id);
+      if (!targetEntry) return;
+      const category = shiftCategory(targetEntry.category, direction);
+      if (category === targetEntry.category) {
+          showKeyboardToast(`${targetEntry.text} 已是「${category}」`);
+          return;
+      }
+      await handleChangeCategory(id, category, targetEl);
+      showKeyboardToast(`${targetEntry.text} → ${category}`);
+  };
+
+  // 键盘导航：按阅读顺序在替换词之间移动焦点，打开气泡、朗读、升降分类
+  useEffect(() => {
+      const moveFocus = (direction: 1 | -1): boolean => {
+          const previous = focusedTargetRef.current;
+          const next = findAdjacentTarget(previous && previous.isConnected ? previous : null, direction);
+          if (!next) return false;
+          if (previous) clearTargetFocus(previous);
+          focusedTargetRef.current = next;
+          setTargetFocus(next);
+
+          // 气泡由键盘打开时随焦点移动
+          if (keyboardBubbleRef.current) {
+              const previousId = previous?.getAttribute('data-entry-id');
+              if (previousId) setActiveBubbles(prev => prev.filter(b => b.id !== previousId));
+              openBubbleFor(next);
+          }
+          return true;
+      };
+
+      const openBubbleFor = (el: HTMLElement) => {
+          const entry = entriesRef.current.find(w => w.id === el.getAttribute('data-entry-id'));
+          if (!entry) return;
+          addBubble(entry, el.getAttribute('data-original-text') || '', getRectInTopWindow(el), el);
+      };
+
+      /**
+       * 执行快捷键动作，返回是否有可操作的替换词 (没有时不拦截按键)
+       */
+      const runAction = (action: KeyboardAction): boolean => {
+          if (action === 'next' || action === 'prev') return moveFocus(action === 'next' ? 1 : -1);
+          const el = focusedTargetRef.current;
+          if (!el || !el.isConnected) return false;
+          const id = el.getAttribute('data-entry-id') || '';
+          const entry = entriesRef.current.find(w => w.id === id);
+          if (!entry) return false;
+
+          if (action === 'toggleBubble') {
+              if (activeBubblesRef.current.some(b => b.id === id)) {
+                  setActiveBubbles(prev => prev.filter(b => b.id !== id));
+                  keyboardBubbleRef.current = false;
+              } else {
+                  openBubbleFor(el);
+                  keyboardBubbleRef.current = true;
+              }
+          } else if (action === 'pronounce') {
+              trackExposure(id, 'pronounce');
+              playWordAudio(entry.text, interactionConfigRef.current.autoPronounceAccent, autoTranslateConfigRef.current.ttsSpeed, entry.language);
+          } else {
+              shiftEntryCategory(id, action === 'promote' ? 1 : -1, el);
+          }
+          return true;
+      };
+
+      const handleKeyDown = (e: KeyboardEvent) => {
+          const navigation = interactionConfigRef.current.keyboardNavigation || DEFAULT_WORD_INTERACTION.keyboardNavigation!;
+          if (!navigation.enabled || !isTranslationActive() || isEditableTarget(getEventTarget(e))) return;
+          const action = (Object.keys(navigation.shortcuts) as KeyboardAction[]).find(a => matchesShortcut(e, navigation.shortcuts[a]));
+          // 页面未翻译或没有可操作的替换词时按键交还给网页
+          if (!action || !runAction(action)) return;
+          e.preventDefault();
+          e.stopPropagation();
+      };
+
+      // 鼠标点击页面其他位置时清除焦点环
+      const handleMouseDown = (e: MouseEvent) => {
+          const el = focusedTargetRef.current;
+          if (!el || getEventTarget(e)?.closest('[data-entry-id]') === el) return;
+          if (e.composedPath().some(n => (n as Element).tagName === 'CONTEXT-LINGO-UI')) return;
+          clearTargetFocus(el);
+          focusedTargetRef.current = null;
+          keyboardBubbleRef.current = false;
+      };
+
+      const attach = (doc: Document) => {
+          doc.addEventListener('keydown', handleKeyDown, true);
+          doc.addEventListener('mousedown', handleMouseDown);
+      };
+      const detach = (doc: Document) => {
+          doc.removeEventListener('keydown', handleKeyDown, true);
+          doc.removeEventListener('mousedown', handleMouseDown);
+      };
+      attach(document);
+      frameDocuments.forEach(attach);
+      frameDocumentListeners.add(attach);
+
+      return () => {
+          frameDocumentListeners.delete(attach);
+          detach(document);
+          frameDocuments.forEach(detach);
+          if (focusedTargetRef.current) clearTargetFocus(focusedTargetRef.current);
+      };
+  }, []);
+
+  /**
+   * 补全外文段落的中文翻译：段落按句翻译，所在句子取对齐的译文
+   */
+  const fillContextTranslations = async (context: SelectionContext): Promise<SelectionContext> => {
+      if (!context.sentence || context.sentenceTranslation) return context;
+      const sentences = context.paragraph.length <= MAX_CONTEXT_PARAGRAPH_LENGTH ? splitTextIntoSentences(context.paragraph) : [context.sentence];
+      const result = await translateSentences(sentences, 'zh').catch(() => null);
+      if (!result) return context;
+      const index = sentences.findIndex(s => s.replace(/\s+/g, ' ').trim() === context.sentence);
+      return {
+          ...context,
+          sentenceTranslation: index !== -1 && result.aligned[index] ? result.translations[index] : undefined,
+          paragraphTranslation: sentences.length > 1 ? result.translations.join('') : undefined
+      };
+  };
+
+  const handleSaveSelection = async (context: SelectionContext, result: RichDictionaryResult, cards: DictionaryMeaningCard[]) => {
+      const filled = await fillContextTranslations(context);
+      const allEntries = await entriesStorage.getValue();
+      const language = autoTranslateConfigRef.current.learningLanguage || DEFAULT_LEARNING_LANGUAGE;
+      const now = Date.now();
+      const isDuplicate = (card: DictionaryMeaningCard) => allEntries.some(e => e.text.toLowerCase() === result.text.toLowerCase() && e.translation?.trim() === card.defCn.trim());
+      const newEntries: WordEntry[] = cards.filter(card => !isDuplicate(card)).map((card, idx) => withGlosses({
+          ...buildEntryFromCard(result, card),
+          id: `selection-${now}-${idx}`,
+          text: result.text,
+          language,
+          contextSentence: filled.sentence || undefined,
+          contextSentenceTranslation: filled.sentenceTranslation,
+          contextParagraph: filled.paragraph || undefined,
+          contextParagraphTranslation: filled.paragraphTranslation,
+          sourceUrl: filled.sourceUrl,
+          sourceTimestamp: filled.sourceTimestamp,
+          category: WordCategory.LearningWord,
+          addedAt: now + idx,
+          scenarioId: '1'
+      }));
+      if (newEntries.length === 0) throw new Error('所选释义已在词库中');
+      const updated = [...newEntries, ...allEntries];
+      await entriesStorage.setValue(updated);
+      setEntries(updated);
+  };
+
   const handleBubbleMouseEnter = (id: string) => {
       if (hideTimers.current.has(id)) {
           clearTimeout(hideTimers.current.get(id)!);
@@ -199,11 +553,44 @@ const ContentOverlay: React.FC<ContentOverlayProps> = ({
       }
   };
 
-  const handleCaptureAndAdd = async (id: string, targetEl?: HTMLElement) => {
+  /**
+   * 采集页面上替换词所在的句子、段落及其翻译，并生成中英混合例句
+   */
+  const captureEntryContext = async (targetEl: Element): Promise<Partial<WordEntry>> => {
+      const chinesePart = targetEl.getAttribute('data-original-text') || '';
+      // 标注模式下外文原词记录在包裹元素上；替换模式下为显示的译词 (去掉样式中的前后缀符号)
+      const isAnnotation = !!targetEl.closest('[data-lingo-mode="annotate"]');
+      const rawWord = isAnnotation ? targetEl.closest('.context-lingo-word')?.getAttribute('data-lingo-original') : targetEl.textContent;
+      const word = (rawWord || '').trim().replace(/^[^\p{L}]+|[^\p{L}]+$/gu, '');
+      const context = await fillContextTranslations(captureElementContext(targetEl, word, block => blockSentences.get(block)));
+      return {
+          contextSentence: context.sentence || undefined,
+          contextSentenceTranslation: context.sentenceTranslation,
+          contextParagraph: context.paragraph || undefined,
+          contextParagraphTranslation: context.paragraphTranslation,
+          mixedSentence: buildMixedSentence(context.sentenceTranslation, chinesePart, word),
+          sourceUrl: context.sourceUrl,
+          sourceTimestamp: context.sourceTimestamp
+      };
+  };
+
+  const handleCaptureAndAdd = async (id: string, targetEl?: Element) => {
+      // 从悬浮窗批量添加时没有触发元素，取页面上该词条的第一处替换
+      const el = targetEl || querySelectorAllDeep(`[data-entry-id="${CSS.escape(id)}"]`)[0];
+      const captured: Partial<WordEntry> = el ? await captureEntryContext(el).catch(() => ({})) : {};
       const allEntries = await entriesStorage.getValue();
       const targetEntry = allEntries.find(e => e.id === id);
       if (!targetEntry) return;
+      trackExposure(id, 'quick_add');
       const updates: Partial<WordEntry> = { category: WordCategory.LearningWord, addedAt: Date.now() };
+      // 只补全空白字段，不覆盖用户已有的例句与来源
+      const fillBlank = <K extends keyof WordEntry>(key: K) => {
+          const value = captured[key];
+          if (value !== undefined && value !== '' && !targetEntry[key]) updates[key] = value;
+      };
+      (Object.keys(captured) as (keyof WordEntry)[]).forEach(fillBlank);
+      // 视频时间点只对同时记录的来源地址有意义
+      if (targetEntry.sourceUrl) delete updates.sourceTimestamp;
       const newEntries = allEntries.map(e => e.id === id ? { ...e, ...updates } : e);
       await entriesStorage.setValue(newEntries);
       setEntries(newEntries);
@@ -212,8 +599,26 @@ const ContentOverlay: React.FC<ContentOverlayProps> = ({
   return (
     <div className="reset-shadow-dom" style={{ all: 'initial', fontFamily: 'sans-serif' }}>
        <PageWidget config={widgetConfig} setConfig={(v) => pageWidgetConfigStorage.setValue(v)} pageWords={pageWords} setPageWords={setPageWords} onBatchAddToLearning={(ids) => ids.forEach(id => handleCaptureAndAdd(id))} />
+       {selectionButton && !selectionLookup && (
+           <SelectionLookupButton targetRect={selectionButton.rect} onClick={() => openSelectionLookup(selectionButton.range, selectionButton.range.toString())} />
+       )}
+       {selectionLookup && (
+           <SelectionLookup
+               context={selectionLookup.context}
+               targetRect={selectionLookup.rect}
+               language={autoTranslateConfig.learningLanguage || DEFAULT_LEARNING_LANGUAGE}
+               accent={interactionConfig.autoPronounceAccent}
+               onSave={(result, cards) => handleSaveSelection(selectionLookup.context, result, cards)}
+               onClose={() => setSelectionLookup(null)}
+           />
+       )}
+       {keyboardToast && (
+           <div style={{ position: 'fixed', bottom: '32px', left: '50%', transform: 'translateX(-50%)', zIndex: 2147483647, padding: '8px 16px', borderRadius: '9999px', backgroundColor: 'rgba(15, 23, 42, 0.9)', color: '#ffffff', fontSize: '13px', fontFamily: 'sans-serif', pointerEvents: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }}>
+               {keyboardToast}
+           </div>
+       )}
        {activeBubbles.map(bubble => (
-           <WordBubble key={bubble.id} entry={bubble.entry} originalText={bubble.originalText} targetRect={bubble.rect} config={interactionConfig} isVisible={true} onMouseEnter={() => handleBubbleMouseEnter(bubble.id)} onMouseLeave={() => scheduleRemoveBubble(bubble.id)} onAddWord={handleCaptureAndAdd} ttsSpeed={autoTranslateConfig.ttsSpeed} />
+           <WordBubble key={bubble.id} entry={bubble.entry} originalText={bubble.originalText} targetRect={bubble.rect} config={interactionConfig} isVisible={true} onMouseEnter={() => handleBubbleMouseEnter(bubble.id)} onMouseLeave={() => scheduleRemoveBubble(bubble.id)} onAddWord={(id) => handleCaptureAndAdd(id, bubble.triggerElement)} onChangeCategory={(id, category) => handleChangeCategory(id, category, bubble.triggerElement)} onUpdateTranslation={handleUpdateTranslation} onHideOnSite={handleHideOnSite} onDeleteEntry={handleDeleteEntry} onPronounce={(id) => trackExposure(id, 'pronounce')} ttsSpeed={autoTranslateConfig.ttsSpeed} />
        ))}
     </div>
   );
@@ -226,41 +631,127 @@ export default defineContentScript({
 
   async main(ctx) {
     preloadVoices();
+    // 单词曝光/交互事件，批量上报给 Background 统计
+    const exposureTracker = createExposureTracker();
     let currentEntries = await entriesStorage.getValue();
     let currentWidgetConfig = await pageWidgetConfigStorage.getValue();
-    let currentAutoTranslate = await autoTranslateConfigStorage.getValue();
-    let currentStyles = await stylesStorage.getValue();
+    let rawAutoTranslate = await autoTranslateConfigStorage.getValue();
+    let rawStyles = await stylesStorage.getValue();
     let currentOriginalTextConfig = await originalTextConfigStorage.getValue();
     let currentEngines = await enginesStorage.getValue();
     let currentInteractionConfig = await interactionConfigStorage.getValue();
 
+    // 全局配置叠加当前站点配置后的实际生效值
+    let siteSettings = resolveSiteSettings(rawAutoTranslate, rawStyles, window.location);
+    let currentAutoTranslate = siteSettings.config;
+    let currentStyles = siteSettings.styles;
+    let contentSelectors = getContentSelectors(rawAutoTranslate.contentRules, window.location);
+    // 站点配置指定的引擎优先，未启用时回退到第一个可用引擎
+    const getActiveEngine = () => currentEngines.find(e => e.id === siteSettings.engineId && e.isEnabled) || currentEngines.find(e => e.isEnabled);
+    // 供浮层补全划词上下文的翻译
+    const translateSentences = async (sentences: string[], target: string): Promise<SentenceTranslationResult | null> => {
+        const engine = getActiveEngine();
+        if (!engine || sentences.length === 0) return null;
+        const response = await browser.runtime.sendMessage({ action: 'TRANSLATE_SENTENCES', engine, sentences, target }) as any;
+        return response?.success ? response.data as SentenceTranslationResult : null;
+    };
+    const getLearningLanguage = () => currentAutoTranslate.learningLanguage || DEFAULT_LEARNING_LANGUAGE;
+    // 仅当前学习语言、且未在本站隐藏的词条参与替换
+    const isLearningEntry = (e: WordEntry) => getEntryLanguage(e) === getLearningLanguage() && !isEntryHiddenOnSite(e, window.location);
+    const getLearningEntries = () => currentEntries.filter(isLearningEntry);
+    // 全部词条的释义/词形索引，词库变化时增量更新；浮层统计本页词汇时共用
+    const matchIndex = new MatchIndex(currentEntries, currentAutoTranslate.matchInflections);
+    const applySiteSettings = () => {
+        siteSettings = resolveSiteSettings(rawAutoTranslate, rawStyles, window.location);
+        currentAutoTranslate = siteSettings.config;
+        currentStyles = siteSettings.styles;
+        contentSelectors = getContentSelectors(rawAutoTranslate.contentRules, window.location);
+        matchIndex.setMatchInflections(currentAutoTranslate.matchInflections);
+    };
+
     // 监听配置更新，确保逻辑实时同步
-    autoTranslateConfigStorage.watch(v => { if(v) currentAutoTranslate = v; });
-    entriesStorage.watch(v => { if(v) currentEntries = v; });
+    autoTranslateConfigStorage.watch(v => { if(v) { rawAutoTranslate = v; applySiteSettings(); syncSubtitleMode(); } });
+    entriesStorage.watch(v => {
+        if (!v) return;
+        const changed = getChangedEntryIds(currentEntries, v);
+        currentEntries = v;
+        matchIndex.sync(v);
+        if (changed.size > 0) refreshEntryReplacements(changed);
+    });
     enginesStorage.watch(v => { if(v) currentEngines = v; });
-    stylesStorage.watch(v => { if(v) currentStyles = v; });
+    stylesStorage.watch(v => { if(v) { rawStyles = v; applySiteSettings(); } });
+
+    // 记录替换时插入的空格节点，还原页面时需要一并移除
+    const insertedSpacers = new Set<Text>();
+    // 跨节点替换时被提取的原始片段，还原时放回原处以保留行内格式
+    const liftedFragments = new WeakMap<Element, DocumentFragment>();
+    // 各文本块实际插入的替换词数量，用于判断框架重新渲染后替换是否丢失
+    const appliedCounts = new WeakMap<Element, number>();
+    // 各文本块已上报过曝光的词条：重新渲染后补回替换、编辑词条后刷新替换都不再重复计数
+    const reportedImpressions = new WeakMap<Element, Set<string>>();
+    const recordImpression = (block: Element, entryId: string) => {
+        let reported = reportedImpressions.get(block);
+        if (!reported) reportedImpressions.set(block, reported = new Set());
+        if (reported.has(entryId)) return;
+        reported.add(entryId);
+        exposureTracker.record(entryId, 'impression');
+    };
+
+    // 本页已获得的段落译文 (按原文索引)：重新渲染或路由切换后再次出现的段落无需重新请求
+    type BlockTranslation = { sentences: string[] } & SentenceTranslationResult;
+    const TRANSLATION_MEMORY_LIMIT = 500;
+    const translationMemory = new Map<string, BlockTranslation>();
+    const rememberTranslation = (source: string, translation: BlockTranslation) => {
+        const key = getMemoryKey(source);
+        translationMemory.delete(key);
+        translationMemory.set(key, translation);
+        if (translationMemory.size > TRANSLATION_MEMORY_LIMIT) {
+            translationMemory.delete(translationMemory.keys().next().value!);
+        }
+    };
+    const normalizeBlockText = (text: string) => text.replace(/\s+/g, '');
+    // 译文随学习语言变化，记忆按 语言 + 原文 索引
+    const getMemoryKey = (source: string) => `${getLearningLanguage()}|${normalizeBlockText(source)}`;
+
+    type ReplacementCandidate = { start: number, end: number, entry: WordEntry, matchedWord: string };
+    type TextNodeRange = { node: Text, start: number, end: number };
 
     /**
-     * 应用替换逻辑
+     * 收集文本块中的文本节点 (跳过已替换的内容)，并记录各节点在全文中的区间
      */
-    const applySentenceScopedReplacements = async (block: HTMLElement, sourceSentences: string[], transSentences: string[]) => {
-        const textNodes: Text[] = [];
-        const walker = document.createTreeWalker(block, NodeFilter.SHOW_TEXT);
+    const collectTextNodes = (block: HTMLElement) => {
+        // 文本块可能位于同源 iframe 中，需使用其所属文档
+        const walker = block.ownerDocument.createTreeWalker(block, NodeFilter.SHOW_TEXT);
+        let fullText = "";
+        const nodeMap: TextNodeRange[] = [];
         let node;
         while(node = walker.nextNode()) {
-            if (!node.parentElement?.closest('.context-lingo-wrapper')) textNodes.push(node as Text);
+            if (node.parentElement?.closest('.context-lingo-wrapper')) continue;
+            const val = node.nodeValue || "";
+            nodeMap.push({ node: node as Text, start: fullText.length, end: fullText.length + val.length });
+            fullText += val;
         }
+        return { nodeMap, fullText };
+    };
 
-        let fullText = "";
-        const nodeMap: { node: Text, start: number, end: number }[] = [];
-        textNodes.forEach(n => {
-            const val = n.nodeValue || "";
-            nodeMap.push({ node: n, start: fullText.length, end: fullText.length + val.length });
-            fullText += val;
-        });
+    /**
+     * 应用替换逻辑
+     */
+    // 激进模式的查词结果：Background 持久化缓存，同一页面内重复的单词只发一次消息
+    const richLookups = new Map<string, Promise<any>>();
+    const lookupRichWord = (text: string): Promise<any> => {
+        const key = text.toLowerCase();
+        if (!richLookups.has(key)) richLookups.set(key, browser.runtime.sendMessage({ action: 'LOOKUP_WORD_RICH', text }).catch(() => null));
+        return richLookups.get(key)!;
+    };
+
+    const applySentenceScopedReplacements = async (block: HTMLElement, sourceSentences: string[], transSentences: string[], aligned: boolean[]) => {
+        const { nodeMap, fullText } = collectTextNodes(block);
+        const language = getLearningLanguage();
+        const learningEntries = getLearningEntries();
 
         // 1. Gather all potential replacements across sentences
-        let allPotentialReplacements: { start: number, end: number, entry: WordEntry, matchedWord: string }[] = [];
+        let allPotentialReplacements: ReplacementCandidate[] = [];
         let searchCursor = 0;
         
         for (let idx = 0; idx < sourceSentences.length; idx++) {
@@ -270,23 +761,21 @@ export default defineContentScript({
             if (sentStart === -1) continue;
             const sentEnd = sentStart + sent.length;
             searchCursor = sentEnd;
+            // 译文未对齐时无法校验释义，宁可不替换也不用错误的英文
+            if (!aligned[idx]) continue;
 
             // Normal Matching
-            const matches = findFuzzyMatches(sent, currentEntries, trans);
+            const matches = findFuzzyMatches(sent, matchIndex, trans, language, { minGlossLength: currentAutoTranslate.minGlossLength, filter: isLearningEntry });
             matches.forEach(m => {
-                let localPos = sent.indexOf(m.text);
-                while (localPos !== -1) {
-                    allPotentialReplacements.push({ start: sentStart + localPos, end: sentStart + localPos + m.text.length, entry: m.entry, matchedWord: m.matchedWord });
-                    localPos = sent.indexOf(m.text, localPos + 1);
-                }
+                allPotentialReplacements.push({ start: sentStart + m.index, end: sentStart + m.index + m.text.length, entry: m.entry, matchedWord: m.matchedWord });
             });
 
-            // Aggressive Matching
-            if (currentAutoTranslate.aggressiveMode) {
+            // Aggressive Matching (依赖有道英汉释义，仅支持英语)
+            if (currentAutoTranslate.aggressiveMode && language === 'en') {
                 const normTrans = normalizeEnglishText(trans);
-                const potentials = currentEntries.filter(e => normTrans.includes(e.text.toLowerCase()));
+                const potentials = learningEntries.filter(e => normTrans.includes(e.text.toLowerCase()));
                 for (const candidate of potentials) {
-                    const response = await browser.runtime.sendMessage({ action: 'LOOKUP_WORD_RICH', text: candidate.text }) as any;
+                    const response = await lookupRichWord(candidate.text);
                     if (response?.success) {
                         const aggMatches = findAggressiveMatches(sent, candidate, response.data, trans);
                         aggMatches.forEach(m => {
@@ -301,40 +790,34 @@ export default defineContentScript({
             }
         }
 
-        // 2. Apply Density Filtering Logic
-        // Group replacements by category
-        const categorizedReplacements: Record<WordCategory, typeof allPotentialReplacements> = {} as any;
-        Object.values(WordCategory).forEach(cat => categorizedReplacements[cat] = []);
-        
-        allPotentialReplacements.forEach(r => {
-            if (categorizedReplacements[r.entry.category]) {
-                categorizedReplacements[r.entry.category].push(r);
-            }
-        });
-
-        const finalFilteredReplacements: typeof allPotentialReplacements = [];
-
-        // For each category, apply density limit
-        for (const cat of Object.values(WordCategory)) {
-            const matches = categorizedReplacements[cat];
-            if (matches.length === 0) continue;
+        applyReplacementsToBlock(block, nodeMap, fullText, allPotentialReplacements, 'replace');
+    };
 
-            const styleConfig = currentStyles[cat];
-            let limit = matches.length; // default: all
+    /**
+     * 英文段落标注：直接在原文中匹配词库单词，保留英文并附加中文释义，无需翻译引擎
+     */
+    const annotateEnglishBlock = (block: HTMLElement, source: string) => {
+        const { nodeMap, fullText } = collectTextNodes(block);
+        const matches = findEnglishMatches(fullText, matchIndex, e => getEntryLanguage(e) === 'en' && !isEntryHiddenOnSite(e, window.location))
+            .filter(m => getPrimaryGloss(m.entry));
+        applyReplacementsToBlock(block, nodeMap, fullText, matches, 'annotate');
+        block.setAttribute('data-lingo-source', source);
+        block.setAttribute('data-lingo-mode', 'annotate');
+        block.setAttribute('data-context-lingo-scanned', 'true');
+    };
 
-            if (styleConfig) {
-                if (styleConfig.densityMode === 'count') {
-                    limit = styleConfig.densityValue;
-                } else if (styleConfig.densityMode === 'percent') {
-                    limit = Math.ceil(matches.length * (styleConfig.densityValue / 100));
-                }
-            }
+    /**
+     * 按密度筛选候选并写入 DOM
+     * replace：中文原文替换为英文；annotate：保留英文原文，以中文释义作为标注
+     */
+    const applyReplacementsToBlock = (block: HTMLElement, nodeMap: TextNodeRange[], fullText: string, allPotentialReplacements: ReplacementCandidate[], mode: 'replace' | 'annotate') => {
+        // 文本块可能位于同源 iframe 中，新节点需由其所属文档创建
+        const doc = block.ownerDocument;
 
-            // Simple strategy: take first N matches (could be improved to random or distributed)
-            // Sorting by position to ensure consistent behavior
-            matches.sort((a, b) => a.start - b.start);
-            finalFilteredReplacements.push(...matches.slice(0, limit));
-        }
+        // 2. Apply Density Filtering Logic (per category, strategy from StyleConfig)
+        // 随机策略以页面地址 + 段落开头为种子，刷新后结果保持稳定
+        const densitySeed = `${location.origin}${location.pathname}|${fullText.slice(0, 32)}`;
+        const finalFilteredReplacements = applyDensityFilter(allPotentialReplacements, currentStyles, densitySeed);
 
         // 3. Apply Replacements to DOM
         // Sort by start position to process sequentially
@@ -356,7 +839,27 @@ export default defineContentScript({
         let lastStart = Number.MAX_VALUE;
         let lastEntry: WordEntry | null = null;
 
-        nonOverlappingReplacements.forEach(r => {
+        const createReplacementSpan = (mid: string, r: typeof nonOverlappingReplacements[number]) => {
+            const span = doc.createElement('span');
+            span.className = 'context-lingo-word';
+            span.setAttribute('data-lingo-original', mid);
+            // Pass specific category styles to builder
+            span.innerHTML = mode === 'annotate'
+                // 标注模式下英文原文居于译文位置，释义总是显示在原文位置
+                ? buildReplacementHtml(getPrimaryGloss(r.entry), mid, r.entry.category, currentStyles, { ...currentOriginalTextConfig, show: true }, r.entry.id)
+                : buildReplacementHtml(
+                    mid, 
+                    r.matchedWord, 
+                    r.entry.category, 
+                    currentStyles, 
+                    currentOriginalTextConfig, 
+                    r.entry.id
+                );
+            return span;
+        };
+
+        // 插件自身的 DOM 修改不应被当作页面重新渲染
+        runWithoutObserving(() => nonOverlappingReplacements.forEach(r => {
             // Check for adjacent replacements requiring space
             let addSpace = false;
             // Since we process in reverse (right to left), 'lastStart' refers to the word on the RIGHT (which was processed previously).
@@ -383,26 +886,18 @@ export default defineContentScript({
                         const after = val.substring(localEnd);
                         const before = val.substring(0, localStart);
 
-                        const span = document.createElement('span');
-                        span.className = 'context-lingo-word';
-                        // Pass specific category styles to builder
-                        span.innerHTML = buildReplacementHtml(
-                            mid, 
-                            r.matchedWord, 
-                            r.entry.category, 
-                            currentStyles, 
-                            currentOriginalTextConfig, 
-                            r.entry.id
-                        );
+                        const span = createReplacementSpan(mid, r);
 
                         // Insert After first (order matters when inserting multiple siblings)
                         if (after) {
-                            node.parentNode?.insertBefore(document.createTextNode(after), node.nextSibling);
+                            node.parentNode?.insertBefore(doc.createTextNode(after), node.nextSibling);
                         }
                         
                         // Insert Space if needed (Between current word and next word)
                         if (addSpace) {
-                            node.parentNode?.insertBefore(document.createTextNode(" "), node.nextSibling);
+                            const spacer = doc.createTextNode(" ");
+                            insertedSpacers.add(spacer);
+                            node.parentNode?.insertBefore(spacer, node.nextSibling);
                         }
 
                         // Insert Replacement
@@ -413,115 +908,740 @@ export default defineContentScript({
                         
                         lastStart = r.start;
                         lastEntry = r.entry;
+                        recordImpression(block, r.entry.id);
                     }
+                } else if (replaceAcrossNodes(r, addSpace)) {
+                    lastStart = r.start;
+                    lastEntry = r.entry;
+                    recordImpression(block, r.entry.id);
                 }
             }
-        });
+        }));
+        appliedCounts.set(block, block.querySelectorAll('.context-lingo-word').length);
+
+        /**
+         * 处理跨越多个文本节点的匹配 (如 <b>预</b>订)
+         * 将整个区间提取为一个替换单元，原始片段 (含行内格式) 保存下来供还原时放回
+         */
+        function replaceAcrossNodes(r: typeof nonOverlappingReplacements[number], addSpace: boolean): boolean {
+            const first = nodeMap.find(n => r.start >= n.start && r.start < n.end);
+            const last = nodeMap.find(n => r.end > n.start && r.end <= n.end);
+            if (!first || !last || first === last) return false;
+
+            const localStart = r.start - first.start;
+            const localEnd = r.end - last.start;
+            if (localStart > (first.node.nodeValue || "").length || localEnd > (last.node.nodeValue || "").length) return false;
+            if (!block.contains(first.node) || !block.contains(last.node)) return false;
+
+            const range = doc.createRange();
+            range.setStart(first.node, localStart);
+            range.setEnd(last.node, localEnd);
+
+            // 跨越换行、图片或已替换内容的区间不视为同一个词
+            if (range.cloneContents().querySelector('br, img, .context-lingo-word')) return false;
+
+            const mid = range.toString();
+            const span = createReplacementSpan(mid, r);
+            liftedFragments.set(span, range.extractContents());
+            range.insertNode(span);
+
+            if (addSpace) {
+                const spacer = doc.createTextNode(" ");
+                insertedSpacers.add(spacer);
+                span.after(spacer);
+            }
+
+            // 提取后残留的空行内元素 (如 <b></b>) 一并移除，还原时由保存的片段补回
+            [first.node, last.node].forEach(n => pruneEmptyInline(n, block));
+            return true;
+        }
+    };
+
+    /**
+     * 自下而上移除被清空的文本节点及行内元素，直到遇到非空节点或所属文本块
+     */
+    const pruneEmptyInline = (node: Node, stopAt: Node) => {
+        let current: Node | null = node;
+        while (current && current !== stopAt && current.parentNode && !(current.textContent || '').length) {
+            if (current.nodeType === Node.ELEMENT_NODE && (current as Element).querySelector('img, br, video, svg')) break;
+            const parent: Node | null = current.parentNode;
+            parent?.removeChild(current);
+            current = parent;
+        }
+    };
+
+    /**
+     * 视口优先级：0 = 视口内，1 = 距视口一屏以内，2 = 其余已进入预加载范围的区块
+     */
+    const getViewportPriority = (el: HTMLElement): number => {
+        const rect = getRectInTopWindow(el);
+        const vh = window.innerHeight;
+        if (rect.bottom > 0 && rect.top < vh) return 0;
+        const distance = rect.top >= vh ? rect.top - vh : -rect.bottom;
+        return distance < vh ? 1 : 2;
     };
 
     class TranslationScheduler {
         private buffer: { block: HTMLElement, text: string }[] = [];
-        private isProcessing = false;
+        private activeCount = 0;
+        // 远离视口的区块先挂起，进入预加载范围 (上下各 3 屏) 后才排队翻译
+        private lazyObserver = new IntersectionObserver(entries => {
+            entries.forEach(entry => {
+                if (!entry.isIntersecting) return;
+                this.lazyObserver.unobserve(entry.target);
+                this.enqueue(entry.target as HTMLElement);
+            });
+        }, { rootMargin: '300% 0px' });
+
+        clear() {
+            this.buffer = [];
+            this.lazyObserver.disconnect();
+        }
         add(block: HTMLElement) {
             const text = block.innerText?.trim();
-            // 长度限制和中文字符检测
-            if (!text || text.length < 5 || !/[\u4e00-\u9fa5]/.test(text)) return;
+            // 长度限制和中文字符检测 (学习英语且开启英文标注时也接受英文段落)
+            if (!text || text.length < 5) return;
+            const annotateEnglish = currentAutoTranslate.englishAnnotation && getLearningLanguage() === 'en';
+            if (!/[\u4e00-\u9fa5]/.test(text) && !(annotateEnglish && isEnglishText(text))) return;
             
             // 排除含有大量标点的干扰项（如导航条）
             if ((text.match(/[\/|\\·•]/g) || []).length > 3 && text.length < 20) return;
 
+            block.setAttribute('data-context-lingo-scanned', 'deferred');
+            this.lazyObserver.observe(block);
+        }
+        private enqueue(block: HTMLElement) {
+            if (block.getAttribute('data-context-lingo-scanned') !== 'deferred') return;
+            const text = block.innerText?.trim();
+            if (!text) return;
             block.setAttribute('data-context-lingo-scanned', 'pending');
             this.buffer.push({ block, text });
             this.flush();
         }
-        private async flush() {
-            if (this.isProcessing || this.buffer.length === 0) return;
-            this.isProcessing = true;
-            const batch = this.buffer.splice(0, 10);
-            const engine = currentEngines.find(e => e.isEnabled);
-            if (!engine) { this.isProcessing = false; return; }
-            
-            for (const item of batch) {
-                try {
-                    const sentences = splitTextIntoSentences(item.text);
-                    const response = await browser.runtime.sendMessage({ action: 'TRANSLATE_TEXT', engine, text: sentences.join(' ||| '), target: 'en' });
-                    if (response.success) {
-                        const transSentences = response.data.Response.TargetText.split(/\s*\|\|\|\s*/);
-                        item.block.setAttribute('data-lingo-source', item.text);
-                        item.block.setAttribute('data-lingo-translation', transSentences.join(' '));
-                        if (currentAutoTranslate.bilingualMode) {
-                            const div = document.createElement('div');
-                            div.className = 'context-lingo-bilingual-block';
-                            div.innerText = transSentences.join(' ');
-                            item.block.after(div);
-                        }
-                        await applySentenceScopedReplacements(item.block, sentences, transSentences);
-                        item.block.setAttribute('data-context-lingo-scanned', 'true');
-                    }
-                } catch (e) { console.error("Translation Error", e); }
+        /**
+         * 按当前滚动位置重新计算优先级，取出最靠近视口的区块
+         */
+        private takeNext() {
+            let bestIndex = 0;
+            let bestPriority = Infinity;
+            for (let i = 0; i < this.buffer.length; i++) {
+                const priority = getViewportPriority(this.buffer[i].block);
+                if (priority < bestPriority) {
+                    bestPriority = priority;
+                    bestIndex = i;
+                    if (priority === 0) break;
+                }
             }
-            this.isProcessing = false;
-            if (this.buffer.length > 0) this.flush();
+            return this.buffer.splice(bestIndex, 1)[0];
+        }
+        private flush() {
+            const engine = getActiveEngine();
+            const limit = Math.max(1, currentAutoTranslate.maxConcurrentRequests || DEFAULT_AUTO_TRANSLATE.maxConcurrentRequests);
+            while (this.activeCount < limit && this.buffer.length > 0) {
+                const item = this.takeNext();
+                this.activeCount++;
+                this.process(item, engine).finally(() => {
+                    this.activeCount--;
+                    this.flush();
+                });
+            }
+        }
+        private async process(item: { block: HTMLElement, text: string }, engine: TranslationEngine | undefined) {
+            if (!item.block.isConnected) return;
+            // 英文段落只做本地标注，不请求翻译引擎
+            if (!/[\u4e00-\u9fa5]/.test(item.text)) {
+                annotateEnglishBlock(item.block, item.text);
+                return;
+            }
+            if (!engine) return;
+            try {
+                const translation = await fetchBlockTranslation(item.text, engine);
+                if (!translation) return;
+                // 翻译期间页面可能已被还原，丢弃过期结果
+                if (item.block.getAttribute('data-context-lingo-scanned') !== 'pending') return;
+                await applyBlockTranslation(item.block, item.text, translation);
+            } catch (e) { console.error("Translation Error", e); }
         }
     }
 
+    /**
+     * 获取段落的逐句译文：优先使用本页译文记忆，否则请求翻译引擎
+     */
+    const fetchBlockTranslation = async (text: string, engine: TranslationEngine): Promise<BlockTranslation | null> => {
+        const remembered = translationMemory.get(getMemoryKey(text));
+        if (remembered) return remembered;
+        const sentences = splitTextIntoSentences(text);
+        const response = await browser.runtime.sendMessage({ action: 'TRANSLATE_SENTENCES', engine, sentences, target: getLearningLanguage() }) as any;
+        if (!response?.success) return null;
+        const translation = { sentences, ...(response.data as SentenceTranslationResult) };
+        rememberTranslation(text, translation);
+        return translation;
+    };
+
+    /**
+     * 将段落译文应用到文本块：记录原文与译文、插入双语对照块并执行替换
+     * 字幕行不插入双语对照块，以免破坏播放器布局
+     */
+    const applyBlockTranslation = async (block: HTMLElement, source: string, translation: BlockTranslation, allowBilingual: boolean = true) => {
+        const { sentences, translations: transSentences, aligned } = translation;
+        blockSentences.set(block, { sentences, translations: transSentences });
+        block.setAttribute('data-lingo-source', source);
+        block.setAttribute('data-lingo-translation', transSentences.join(' '));
+        // 存在无法对齐的句子时做标记，这些句子不参与替换
+        if (aligned.some(a => !a)) block.setAttribute('data-lingo-alignment', 'uncertain');
+        else block.removeAttribute('data-lingo-alignment');
+        const next = block.nextElementSibling;
+        if (allowBilingual && currentAutoTranslate.bilingualMode && !next?.classList.contains('context-lingo-bilingual-block')) {
+            runWithoutObserving(() => {
+                const div = block.ownerDocument.createElement('div');
+                div.className = 'context-lingo-bilingual-block';
+                div.innerText = transSentences.join(' ');
+                block.after(div);
+            });
+        }
+        await applySentenceScopedReplacements(block, sentences, transSentences, aligned);
+        block.setAttribute('data-context-lingo-scanned', 'true');
+    };
+
     const scheduler = new TranslationScheduler();
+    // 可作为翻译单元的文本容器标签
+    const TEXT_CONTAINERS = ['P','DIV','LI','ARTICLE','SECTION','BLOCKQUOTE','H1','H2','H3','H4','H5','H6', 'TD', 'TH'];
+
+    // 正文容器：优先使用站点规则中的正文选择器，其次按文本密度自动识别，均失败时回退到 body
+    let contentRoots: Element[] = [];
+
+    const detectScanRoots = (doc: Document = document): Element[] => {
+        if (currentAutoTranslate.translateWholePage) return [doc.body];
+        const included = queryAllSelectors(doc, contentSelectors.include);
+        if (included.length > 0) return included;
+        const detected = detectMainContent(doc);
+        return detected.length > 0 ? detected : [doc.body];
+    };
+
+    // 增量扫描复用上次的识别结果，正文容器被替换 (如 SPA 重新渲染) 时重新识别
+    const getScanRoots = (refresh: boolean = false): Element[] => {
+        if (refresh || contentRoots.length === 0 || contentRoots.some(r => !r.isConnected)) {
+            contentRoots = detectScanRoots();
+        }
+        return contentRoots;
+    };
+
+    const acceptNode = (n: any): number => {
+        const tagName = n.tagName.toUpperCase();
+        // 1. 基础剔除标签
+        if (['SCRIPT','STYLE','NOSCRIPT','IFRAME','CANVAS','VIDEO','AUDIO','BUTTON','INPUT','TEXTAREA','SELECT', 'CODE', 'PRE'].includes(tagName)) return NodeFilter.FILTER_REJECT;
+        
+        // 2. 内部 UI 剔除
+        // 修复：排除插件生成的双语对照块，防止递归翻译
+        if (n.hasAttribute('data-context-lingo-scanned') || 
+            n.closest('[data-context-lingo-container]') ||
+            n.classList?.contains('context-lingo-bilingual-block') ||
+            n.closest('.context-lingo-bilingual-block')
+        ) return NodeFilter.FILTER_REJECT;
+        
+        // 字幕模式下播放器内的字幕由字幕逻辑逐行处理
+        if (currentAutoTranslate.subtitleMode && n.closest(PLAYER_SELECTOR)) return NodeFilter.FILTER_REJECT;
+
+        // 3. 用户指定的排除区域 (全页扫描时同样生效)
+        if (contentSelectors.exclude.length > 0 && matchesAnySelector(n, contentSelectors.exclude)) return NodeFilter.FILTER_REJECT;
+
+        // 4. 结构性过滤：非全页扫描时剔除导航、侧栏及链接堆积的区域
+        if (!currentAutoTranslate.translateWholePage) {
+            if (['NAV', 'ASIDE'].includes(tagName)) return NodeFilter.FILTER_REJECT;
+            // 文章内部的 header/footer (如标题、署名) 属于正文，仅剔除页面级的页眉页脚
+            if (['HEADER', 'FOOTER'].includes(tagName) && !n.parentElement?.closest('article, main')) return NodeFilter.FILTER_REJECT;
+            if (['UL', 'OL', 'MENU'].includes(tagName) && isLinkCluster(n)) return NodeFilter.FILTER_REJECT;
+        }
+
+        // 5. 接受文本容器标签
+        // 重要修复：仅接受“叶子”块级元素。如果容器包含其他块级子元素（如 P, DIV），则跳过父容器，深入子元素。
+        // 这能有效防止父容器和子 P 标签同时被识别、翻译和替换，从而导致内容重复。
+        if (TEXT_CONTAINERS.includes(tagName)) {
+            const hasBlockChildren = Array.from(n.children).some((c: any) => TEXT_CONTAINERS.includes(c.tagName));
+            if (hasBlockChildren) {
+                return NodeFilter.FILTER_SKIP; // 跳过当前容器，继续扫描子元素
+            }
+            // 由链接组成的短文本块 (导航项、推荐标题) 不参与翻译
+            if (!currentAutoTranslate.translateWholePage && isLinkCluster(n)) return NodeFilter.FILTER_REJECT;
+            return NodeFilter.FILTER_ACCEPT; // 它是叶子块级元素，接受并处理
+        }
+
+        return NodeFilter.FILTER_SKIP;
+    };
+
+    // 已接入的 shadow root 与 iframe 文档需单独监听 DOM 变化
+    const observedRoots = new Set<Node>();
+    const observeRoot = (root: Node) => {
+        if (!isTranslationActive || observedRoots.has(root)) return;
+        observedRoots.add(root);
+        observer.observe(root, { childList: true, characterData: true, subtree: true });
+    };
+
+    const MIN_FRAME_SIZE = 50;
+    const watchedFrames = new WeakSet<HTMLIFrameElement>();
+
+    /**
+     * 同源 iframe 视为独立页面：单独识别正文并扫描，加载新文档后重新接入
+     */
+    const attachFrame = (frame: HTMLIFrameElement) => {
+        if (!watchedFrames.has(frame)) {
+            watchedFrames.add(frame);
+            frame.addEventListener('load', () => { if (isTranslationActive) attachFrame(frame); });
+        }
+        // 忽略用于统计、广告的隐藏或极小 iframe
+        const rect = frame.getBoundingClientRect();
+        if (rect.width < MIN_FRAME_SIZE || rect.height < MIN_FRAME_SIZE) return;
+        const doc = getFrameDocument(frame);
+        if (!doc) return;
+        registerFrameDocument(doc);
+        observeRoot(doc.body);
+        detectScanRoots(doc).forEach(scanSubtree);
+    };
+
+    /**
+     * 扫描指定子树中的叶子文本块并交给调度器
+     * TreeWalker 不会对根节点调用过滤器，也不会进入 shadow root 和 iframe，需要单独处理
+     */
+    const scanSubtree = (root: Element) => {
+        const shadowRoots: ShadowRoot[] = [];
+        const frames: HTMLIFrameElement[] = [];
+        const filter = (n: any): number => {
+            if (n.tagName === 'IFRAME') {
+                frames.push(n);
+                return NodeFilter.FILTER_REJECT;
+            }
+            const result = acceptNode(n);
+            if (result !== NodeFilter.FILTER_REJECT && n.shadowRoot && n.tagName !== 'CONTEXT-LINGO-UI') shadowRoots.push(n.shadowRoot);
+            return result;
+        };
+
+        const rootResult = filter(root);
+        if (rootResult === NodeFilter.FILTER_ACCEPT) scheduler.add(root as HTMLElement);
+        if (rootResult !== NodeFilter.FILTER_REJECT) {
+            const walker = root.ownerDocument.createTreeWalker(root, NodeFilter.SHOW_ELEMENT, { acceptNode: filter });
+            while(walker.nextNode()) scheduler.add(walker.currentNode as HTMLElement);
+        }
+
+        shadowRoots.forEach(shadow => {
+            observeRoot(shadow);
+            Array.from(shadow.children).forEach(scanSubtree);
+        });
+        frames.forEach(attachFrame);
+    };
+
     const scan = () => {
-        // 定义主体内容的优先容器
-        const mainSelectors = ['main', 'article', '#main', '.main', '#content', '.content', '.article', '.post-content'];
-        const mainContainer = !currentAutoTranslate.translateWholePage 
-            ? document.querySelector(mainSelectors.join(',')) || document.body 
-            : document.body;
-
-        const walker = document.createTreeWalker(mainContainer, NodeFilter.SHOW_ELEMENT, {
-            acceptNode: (n: any) => {
-                const tagName = n.tagName.toUpperCase();
-                // 1. 基础剔除标签
-                if (['SCRIPT','STYLE','NOSCRIPT','IFRAME','CANVAS','VIDEO','AUDIO','BUTTON','INPUT','TEXTAREA','SELECT', 'CODE', 'PRE'].includes(tagName)) return NodeFilter.FILTER_REJECT;
-                
-                // 2. 内部 UI 剔除
-                // 修复：排除插件生成的双语对照块，防止递归翻译
-                if (n.hasAttribute('data-context-lingo-scanned') || 
-                    n.closest('[data-context-lingo-container]') ||
-                    n.classList?.contains('context-lingo-bilingual-block') ||
-                    n.closest('.context-lingo-bilingual-block')
-                ) return NodeFilter.FILTER_REJECT;
-                
-                // 3. 结构性过滤：非全页扫描时剔除干扰容器
-                if (!currentAutoTranslate.translateWholePage) {
-                    if (['NAV', 'HEADER', 'FOOTER', 'ASIDE'].includes(tagName)) return NodeFilter.FILTER_REJECT;
-                    // 额外检测 class 和 id 中包含导航词汇的容器
-                    const identity = (n.id + n.className).toLowerCase();
-                    if (['nav', 'menu', 'sidebar', 'header', 'footer', 'toolbar', 'breadcrumb', 'comment'].some(word => identity.includes(word))) return NodeFilter.FILTER_REJECT;
-                    // 排除被以上标签包裹的子孙元素
-                    if (n.closest('nav, header, footer, aside')) return NodeFilter.FILTER_REJECT;
-                }
+        getScanRoots(true).forEach(scanSubtree);
+    };
 
-                // 4. 接受文本容器标签
-                // 重要修复：仅接受“叶子”块级元素。如果容器包含其他块级子元素（如 P, DIV），则跳过父容器，深入子元素。
-                // 这能有效防止父容器和子 P 标签同时被识别、翻译和替换，从而导致内容重复。
-                const textContainers = ['P','DIV','LI','ARTICLE','SECTION','BLOCKQUOTE','H1','H2','H3','H4','H5','H6', 'TD', 'TH'];
-                if (textContainers.includes(tagName)) {
-                    const hasBlockChildren = Array.from(n.children).some((c: any) => textContainers.includes(c.tagName));
-                    if (hasBlockChildren) {
-                        return NodeFilter.FILTER_SKIP; // 跳过当前容器，继续扫描子元素
-                    }
-                    return NodeFilter.FILTER_ACCEPT; // 它是叶子块级元素，接受并处理
-                }
+    /**
+     * 增量扫描：只收集新增的子树，忽略插件自身插入的节点，并对突发的批量变更做防抖
+     */
+    const MUTATION_DEBOUNCE = 300;
+    const MUTATION_MAX_WAIT = 1500;
+    const pendingRoots = new Set<Node>();
+    let mutationTimer: ReturnType<typeof setTimeout> | null = null;
+    let firstPendingAt = 0;
+
+    const isOwnNode = (node: Node): boolean => {
+        if (node.nodeType === Node.TEXT_NODE && insertedSpacers.has(node as Text)) return true;
+        const el = node.nodeType === Node.ELEMENT_NODE ? node as Element : node.parentElement;
+        if (!el) return true;
+        return !!el.closest('.context-lingo-word, .context-lingo-bilingual-block, [data-context-lingo-container], context-lingo-ui');
+    };
+
+    const flushMutations = () => {
+        mutationTimer = null;
+        firstPendingAt = 0;
+        const roots = Array.from(pendingRoots).filter(n => n.isConnected);
+        pendingRoots.clear();
+        const dirty = Array.from(dirtyBlocks);
+        dirtyBlocks.clear();
+        dirty.forEach(revalidateBlock);
+
+        const scanRoots = getScanRoots();
+        const starts = new Set<Element>();
+        roots.forEach(node => {
+            const el = node.nodeType === Node.ELEMENT_NODE ? node as Element : node.parentElement;
+            if (!el) return;
+            // shadow root 与 iframe 中的变化来自已接入扫描的根节点，顶层文档则需位于正文容器内
+            if (el.getRootNode() === document && !scanRoots.some(r => r.contains(el))) return;
+            // 文本或行内节点插入到已有段落中：从所属的叶子文本块开始扫描；其余情况只扫描新增子树本身
+            const container = el.closest(TEXT_CONTAINERS.join(','));
+            const isLeafContainer = !!container && !Array.from(container.children).some(c => TEXT_CONTAINERS.includes(c.tagName));
+            const isInlineInsertion = node !== el || (!TEXT_CONTAINERS.includes(el.tagName) && isLeafContainer);
+            const start = isInlineInsertion && container ? container : el;
+            // 已处理过的文本块内部变化 (含插件自身的替换) 不再重复处理
+            if (start.closest('[data-context-lingo-scanned]')) return;
+            starts.add(start);
+        });
+
+        // 去除被其他根节点包含的子树，避免重复遍历
+        const uniqueStarts = Array.from(starts).filter(el => !Array.from(starts).some(other => other !== el && other.contains(el)));
+        uniqueStarts.forEach(scanSubtree);
+    };
+
+    // 已处理过、但内部被页面 (框架重新渲染) 修改的文本块
+    const dirtyBlocks = new Set<HTMLElement>();
+
+    const handleMutations = (mutations: MutationRecord[]) => {
+        mutations.forEach(m => {
+            const target = m.target.nodeType === Node.ELEMENT_NODE ? m.target as Element : m.target.parentElement;
+            if (currentAutoTranslate.subtitleMode && target?.closest(PLAYER_SELECTOR)) return;
+            const block = target?.closest('[data-context-lingo-scanned="true"]') as HTMLElement | null;
+            if (block) {
+                dirtyBlocks.add(block);
+                return;
+            }
+            if (m.type === 'characterData') {
+                if (!isOwnNode(m.target)) pendingRoots.add(m.target);
+                return;
+            }
+            m.addedNodes.forEach(n => {
+                if (!isOwnNode(n)) pendingRoots.add(n);
+            });
+        });
+        if (pendingRoots.size === 0 && dirtyBlocks.size === 0) return;
+
+        const now = Date.now();
+        if (!firstPendingAt) firstPendingAt = now;
+        if (mutationTimer) clearTimeout(mutationTimer);
+        // 持续变化的页面 (如无限滚动) 也至少每 MUTATION_MAX_WAIT 处理一次
+        const delay = Math.min(MUTATION_DEBOUNCE, Math.max(0, MUTATION_MAX_WAIT - (now - firstPendingAt)));
+        mutationTimer = setTimeout(flushMutations, delay);
+    };
+
+    const observer = new MutationObserver(handleMutations);
+
+    /**
+     * 执行插件自身的 DOM 修改：先处理已积累的页面变化，再丢弃本次修改产生的记录
+     */
+    const runWithoutObserving = <T,>(fn: () => T): T => {
+        handleMutations(observer.takeRecords());
+        try {
+            return fn();
+        } finally {
+            observer.takeRecords();
+        }
+    };
+
+    /**
+     * 撤销所有替换，将页面恢复为原始状态
+     */
+    const restorePage = () => {
+        scheduler.clear();
+        restoreReplacements(querySelectorAllDeep('.context-lingo-word'), Array.from(insertedSpacers));
+        querySelectorAllDeep('.context-lingo-bilingual-block').forEach(el => el.remove());
+        querySelectorAllDeep('[data-context-lingo-scanned]').forEach(clearBlockState);
+    };
+
+    /**
+     * 将替换词还原为原文并移除插入的空格
+     */
+    const restoreReplacements = (spans: Element[], spacers: Text[]) => {
+        const parents = new Set<Node>();
+        spans.forEach(span => {
+            const parent = span.parentNode;
+            if (!parent) return;
+            const original = liftedFragments.get(span) || span.ownerDocument.createTextNode(span.getAttribute('data-lingo-original') || '');
+            parent.replaceChild(original, span);
+            parents.add(parent);
+        });
+        spacers.forEach(spacer => {
+            if (spacer.parentNode) {
+                parents.add(spacer.parentNode);
+                spacer.parentNode.removeChild(spacer);
+            }
+            insertedSpacers.delete(spacer);
+        });
+        // 合并被拆分的文本节点，使 DOM 与替换前一致
+        parents.forEach(p => p.normalize());
+    };
+
+    // 影响页面替换结果的词条字段
+    const getRenderKey = (e: WordEntry) => [e.text, e.translation, getEntryGlosses(e).join(','), e.category, e.language, (e.hiddenSites || []).join(','), !!e.allowSubstringMatch].join('|');
+
+    /**
+     * 找出被修改或删除的词条
+     */
+    const getChangedEntryIds = (previous: WordEntry[], next: WordEntry[]): Set<string> => {
+        const nextKeys = new Map(next.map(e => [e.id, getRenderKey(e)]));
+        return new Set(previous.filter(e => nextKeys.get(e.id) !== getRenderKey(e)).map(e => e.id));
+    };
+
+    /**
+     * 词条分类、释义、隐藏网站变化或被删除后，刷新页面上已渲染的对应替换词 (所有标签页通过 storage 监听同步)
+     * 所在文本块撤销替换后按已有译文重新匹配，无需重新请求翻译
+     */
+    const refreshEntryReplacements = (ids: Set<string>) => {
+        const blocks = new Set<HTMLElement>();
+        querySelectorAllDeep('.context-lingo-target[data-entry-id]').forEach(el => {
+            if (!ids.has(el.getAttribute('data-entry-id') || '')) return;
+            const block = el.closest('[data-context-lingo-scanned="true"]') as HTMLElement | null;
+            if (block) blocks.add(block);
+        });
+
+        blocks.forEach(block => {
+            const source = block.getAttribute('data-lingo-source') || '';
+            runWithoutObserving(() => restoreReplacements(Array.from(block.querySelectorAll('.context-lingo-word')), Array.from(insertedSpacers).filter(s => block.contains(s))));
+            if (block.getAttribute('data-lingo-mode') === 'annotate') {
+                annotateEnglishBlock(block, source);
+                return;
+            }
+            const translation = translationMemory.get(getMemoryKey(source));
+            if (translation) {
+                // 双语译文块已存在，不重复插入
+                applyBlockTranslation(block, source, translation, false).catch(e => console.error("Refresh Error", e));
+                return;
+            }
+            clearBlockState(block);
+            scheduler.add(block);
+        });
+    };
+
+    const clearBlockState = (el: Element) => {
+        el.removeAttribute('data-context-lingo-scanned');
+        el.removeAttribute('data-lingo-source');
+        el.removeAttribute('data-lingo-translation');
+        el.removeAttribute('data-lingo-alignment');
+        el.removeAttribute('data-lingo-mode');
+        blockSentences.delete(el);
+    };
+
+    /**
+     * 文本块的原文：替换词按原文计算、忽略空白 (含插入的空格)，用于与 data-lingo-source 比对
+     */
+    const getBlockSourceText = (block: Element): string => {
+        const clone = block.cloneNode(true) as Element;
+        clone.querySelectorAll('.context-lingo-word').forEach(span => span.replaceWith(span.getAttribute('data-lingo-original') || ''));
+        return normalizeBlockText(clone.textContent || '');
+    };
+
+    /**
+     * 检查已处理的文本块在页面重新渲染后是否仍然完好：
+     * 原文未变但替换丢失时，使用已有译文重新替换；原文已变化时作为新段落重新排队翻译
+     */
+    const revalidateBlock = (block: HTMLElement) => {
+        if (!block.isConnected || block.getAttribute('data-context-lingo-scanned') !== 'true') return;
+        const source = block.getAttribute('data-lingo-source') || '';
+        const spans = Array.from(block.querySelectorAll('.context-lingo-word'));
+        const spacers = Array.from(insertedSpacers).filter(s => block.contains(s));
+        const unchanged = getBlockSourceText(block) === normalizeBlockText(source);
+        if (unchanged && spans.length === (appliedCounts.get(block) || 0)) return;
+
+        runWithoutObserving(() => {
+            restoreReplacements(spans, spacers);
+            const next = block.nextElementSibling;
+            if (!unchanged && next?.classList.contains('context-lingo-bilingual-block')) next.remove();
+        });
+        const translation = translationMemory.get(getMemoryKey(source));
+        if (unchanged && translation) {
+            applyBlockTranslation(block, source, translation).catch(e => console.error("Re-apply Error", e));
+            return;
+        }
+        clearBlockState(block);
+        scheduler.add(block);
+    };
+
+    let isTranslationActive = false;
+    let startTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const startTranslation = (delay: number = 0) => {
+        if (isTranslationActive) return;
+        isTranslationActive = true;
+        startTimer = setTimeout(() => {
+            startTimer = null;
+            observeRoot(document.body);
+            scan();
+            syncSubtitleMode();
+        }, delay);
+    };
+
+    const stopTranslation = () => {
+        if (!isTranslationActive) return;
+        isTranslationActive = false;
+        if (startTimer) { clearTimeout(startTimer); startTimer = null; }
+        observer.disconnect();
+        observedRoots.clear();
+        if (mutationTimer) { clearTimeout(mutationTimer); mutationTimer = null; }
+        pendingRoots.clear();
+        dirtyBlocks.clear();
+        firstPendingAt = 0;
+        stopSubtitles();
+        restorePage();
+    };
+
+    /**
+     * 视频字幕模式：字幕行随播放频繁更换，单独监听并立即处理，不经过可见性队列
+     */
+    const SUBTITLE_SCAN_THROTTLE = 100;
+    let subtitleObserver: MutationObserver | null = null;
+    let subtitleTimer: ReturnType<typeof setTimeout> | null = null;
+    // 原生 <track> 字幕的渲染器及视频字幕轨道的监听
+    const trackRenderers = new Map<HTMLVideoElement, () => void>();
+    const trackListeners = new Map<HTMLVideoElement, () => void>();
+
+    const processSubtitleLine = async (line: HTMLElement) => {
+        const state = line.getAttribute('data-context-lingo-scanned');
+        if (state === 'pending') return;
+        if (state === 'true') {
+            if (getBlockSourceText(line) === normalizeBlockText(line.getAttribute('data-lingo-source') || '')) return;
+            // 播放器就地改写了字幕文本：撤销旧的替换后按新字幕处理
+            restoreReplacements(Array.from(line.querySelectorAll('.context-lingo-word')), Array.from(insertedSpacers).filter(s => line.contains(s)));
+            clearBlockState(line);
+        }
+        const source = line.innerText?.trim();
+        if (!source) return;
 
-                return NodeFilter.FILTER_SKIP;
+        if (!/[\u4e00-\u9fa5]/.test(source)) {
+            if (currentAutoTranslate.englishAnnotation && getLearningLanguage() === 'en' && isEnglishText(source)) annotateEnglishBlock(line, source);
+            return;
+        }
+        const engine = getActiveEngine();
+        if (!engine) return;
+        line.setAttribute('data-context-lingo-scanned', 'pending');
+        try {
+            const translation = await fetchBlockTranslation(source, engine);
+            // 翻译返回前字幕可能已切换到下一句
+            const isCurrent = line.isConnected && line.getAttribute('data-context-lingo-scanned') === 'pending' && normalizeBlockText(line.innerText || '') === normalizeBlockText(source);
+            if (!translation || !isCurrent) {
+                clearBlockState(line);
+                return;
             }
+            await applyBlockTranslation(line, source, translation, false);
+        } catch (e) {
+            clearBlockState(line);
+            console.error("Subtitle Translation Error", e);
+        }
+    };
+
+    const updateTrackRenderer = (video: HTMLVideoElement) => {
+        const hasShowingTrack = Array.from(video.textTracks).some(t => (t.kind === 'subtitles' || t.kind === 'captions') && t.mode === 'showing');
+        if (!hasShowingTrack) return;
+        trackRenderers.get(video)?.();
+        trackRenderers.set(video, renderTrackSubtitles(video));
+    };
+
+    const scanSubtitles = () => {
+        subtitleTimer = null;
+        if (!isTranslationActive || !currentAutoTranslate.subtitleMode) return;
+        [document, ...frameDocuments].forEach(doc => {
+            doc.querySelectorAll('video').forEach(video => {
+                if (trackListeners.has(video)) return;
+                // 用户之后才打开字幕或切换字幕轨道时重新渲染
+                const listener = () => updateTrackRenderer(video);
+                video.textTracks.addEventListener('change', listener);
+                trackListeners.set(video, listener);
+                updateTrackRenderer(video);
+            });
+            doc.querySelectorAll(SUBTITLE_SELECTOR).forEach(line => processSubtitleLine(line as HTMLElement));
         });
-        while(walker.nextNode()) scheduler.add(walker.currentNode as HTMLElement);
     };
 
-    const hostname = window.location.hostname;
-    if (currentAutoTranslate.blacklist.some(d => hostname.includes(d))) return;
-    if (currentAutoTranslate.enabled) {
-        setTimeout(scan, 1500);
-        const obs = new MutationObserver(() => scan());
-        obs.observe(document.body, { childList: true, subtree: true });
+    const scheduleSubtitleScan = () => {
+        if (!subtitleTimer) subtitleTimer = setTimeout(scanSubtitles, SUBTITLE_SCAN_THROTTLE);
+    };
+
+    const stopSubtitles = () => {
+        subtitleObserver?.disconnect();
+        subtitleObserver = null;
+        if (subtitleTimer) { clearTimeout(subtitleTimer); subtitleTimer = null; }
+        trackRenderers.forEach(cleanup => cleanup());
+        trackRenderers.clear();
+        trackListeners.forEach((listener, video) => video.textTracks.removeEventListener('change', listener));
+        trackListeners.clear();
+    };
+
+    // 按当前配置启动或停止字幕处理
+    const syncSubtitleMode = () => {
+        if (!isTranslationActive || !currentAutoTranslate.subtitleMode) {
+            stopSubtitles();
+            return;
+        }
+        if (subtitleObserver) return;
+        subtitleObserver = new MutationObserver(scheduleSubtitleScan);
+        subtitleObserver.observe(document.body, { childList: true, characterData: true, subtree: true });
+        frameDocuments.forEach(doc => subtitleObserver?.observe(doc.body, { childList: true, characterData: true, subtree: true }));
+        scanSubtitles();
+    };
+
+    if (siteSettings.isBlocked) {
+        // 黑名单网站不再继续初始化，但仍应答快捷键 (Alt+T) 与元素选取，明确告知调用方本页已屏蔽
+        browser.runtime.onMessage.addListener(async (message: any) => {
+            if (message?.action === 'TRIGGER_TRANSLATION' || message?.action === 'START_ELEMENT_PICKER') return { success: false, status: 'blocked' };
+        });
+        return;
     }
+    if (siteSettings.shouldTranslate) startTranslation(1500);
+
+    // 单页应用路由切换：按新路径重新计算站点配置，等待页面渲染后重新识别正文并扫描
+    const NAVIGATION_RESCAN_DELAY = 800;
+    let navigationTimer: ReturnType<typeof setTimeout> | null = null;
+    ctx.addEventListener(window, 'wxt:locationchange', () => {
+        applySiteSettings();
+        // 新路径的站点配置关闭了翻译：停止并还原上一路径留下的替换
+        if (siteSettings.profile?.enabled === false) {
+            if (navigationTimer) { clearTimeout(navigationTimer); navigationTimer = null; }
+            stopTranslation();
+            return;
+        }
+        if (!isTranslationActive) {
+            if (siteSettings.shouldTranslate) startTranslation(NAVIGATION_RESCAN_DELAY);
+            return;
+        }
+        if (navigationTimer) clearTimeout(navigationTimer);
+        navigationTimer = setTimeout(() => {
+            navigationTimer = null;
+            if (!isTranslationActive) return;
+            querySelectorAllDeep('[data-context-lingo-scanned="true"]').forEach(el => revalidateBlock(el as HTMLElement));
+            scan();
+        }, NAVIGATION_RESCAN_DELAY);
+    });
+
+    /**
+     * 将选取的元素记录为当前域名的正文/排除选择器，并按新规则重新扫描
+     */
+    const saveContentSelector = async (mode: ElementPickerMode, selector: string) => {
+        const config = await autoTranslateConfigStorage.getValue();
+        const rules = Array.isArray(config.contentRules) ? [...config.contentRules] : [];
+        const hostname = window.location.hostname;
+        let index = rules.findIndex(r => r.pattern === hostname);
+        if (index === -1) {
+            rules.push({ id: `content-${Date.now()}`, pattern: hostname, includeSelectors: [], excludeSelectors: [] });
+            index = rules.length - 1;
+        }
+        const key = mode === 'include' ? 'includeSelectors' : 'excludeSelectors';
+        const existing = rules[index][key] || [];
+        if (!existing.includes(selector)) rules[index] = { ...rules[index], [key]: [...existing, selector] };
+
+        rawAutoTranslate = { ...config, contentRules: rules };
+        applySiteSettings();
+        await autoTranslateConfigStorage.setValue(rawAutoTranslate);
+
+        if (isTranslationActive) {
+            stopTranslation();
+            startTranslation();
+        }
+    };
+
+    let stopPicker: (() => void) | null = null;
+
+    // 快捷键 (Alt+T)：未翻译时立即扫描，已翻译时完整还原页面
+    browser.runtime.onMessage.addListener((message: any) => {
+        if (message?.action === 'TRIGGER_TRANSLATION') {
+            if (isTranslationActive) stopTranslation();
+            else startTranslation();
+        }
+        // 右键菜单：进入元素选取模式
+        if (message?.action === 'START_ELEMENT_PICKER') {
+            stopPicker?.();
+            const mode: ElementPickerMode = message.mode === 'exclude' ? 'exclude' : 'include';
+            stopPicker = startElementPicker({
+                mode,
+                onPick: selector => { stopPicker = null; saveContentSelector(mode, selector); },
+                onCancel: () => { stopPicker = null; }
+            });
+        }
+    });
 
     await createShadowRootUi(ctx, {
       name: 'context-lingo-ui',
@@ -531,7 +1651,7 @@ export default defineContentScript({
         wrapper.id = 'context-lingo-app-root';
         container.append(wrapper);
         const root = ReactDOM.createRoot(wrapper);
-        root.render(<React.StrictMode><ContentOverlay initialWidgetConfig={currentWidgetConfig} initialEntries={currentEntries} initialInteractionConfig={currentInteractionConfig} initialAutoTranslateConfig={currentAutoTranslate} /></React.StrictMode>);
+        root.render(<React.StrictMode><ContentOverlay initialWidgetConfig={currentWidgetConfig} initialEntries={currentEntries} initialInteractionConfig={currentInteractionConfig} initialAutoTranslateConfig={currentAutoTranslate} translateSentences={translateSentences} trackExposure={exposureTracker.record} matchIndex={matchIndex} isTranslationActive={() => isTranslationActive} /></React.StrictMode>);
         return root;
       },
       onRemove: (root) => root?.unmount(),
@@ -0,0 +1,109 @@
+/**
+ * 词库匹配性能基准：在 Node 中用合成词库对比逐词条 indexOf 与 Aho-Corasick 索引
+ * 运行：npm run bench:matching
+ */
+import { WordEntry, WordCategory } from '../types';
+import { MatchIndex } from '../utils/match-index';
+import { findFuzzyMatches, GlossMatch } from '../utils/matching';
+import { getEntryGlosses } from '../utils/gloss';
+
+const VOCAB_SIZES = [1000, 5000, 10000];
+const SENTENCE_COUNT = 400;
+const ROUNDS = 3;
+
+// 固定种子的伪随机数，保证每次运行数据一致
+let seed = 42;
+const random = () => {
+    seed = (seed * 1664525 + 1013904223) % 4294967296;
+    return seed / 4294967296;
+};
+const pick = <T>(list: T[]): T => list[Math.floor(random() * list.length)];
+
+const CJK_START = 0x4e00;
+const CJK_RANGE = 3000; // 只取常用区段，让释义之间有足够多的公共字
+const randomHan = (length: number) => Array.from({ length }, () => String.fromCharCode(CJK_START + Math.floor(random() * CJK_RANGE))).join('');
+const randomWord = () => Array.from({ length: 4 + Math.floor(random() * 6) }, () => String.fromCharCode(97 + Math.floor(random() * 26))).join('');
+
+const buildVocabulary = (size: number): WordEntry[] => Array.from({ length: size }, (_, i) => {
+    const text = `${randomWord()}${i}`;
+    return {
+        id: `bench-${i}`,
+        text,
+        translation: `${pick(['n. ', 'v. ', 'adj. ', ''])}${randomHan(2)}；${randomHan(2 + Math.floor(random() * 2))}（常用于书面）`,
+        inflections: [`${text}s`, `${text}ed`, `${text}ing`],
+        category: pick([WordCategory.LearningWord, WordCategory.WantToLearnWord, WordCategory.KnownWord]),
+        addedAt: 0
+    };
+});
+
+/**
+ * 合成句子：中文原文中嵌入若干词条释义，译文中出现对应的英文词形
+ */
+const buildSentences = (vocab: WordEntry[]) => Array.from({ length: SENTENCE_COUNT }, () => {
+    let source = '';
+    const words: string[] = [];
+    for (let i = 0; i < 4; i++) {
+        const entry = pick(vocab);
+        source += randomHan(6) + pick(getEntryGlosses(entry));
+        words.push(pick([entry.text, ...(entry.inflections || [])]));
+        words.push(randomWord());
+    }
+    return { source: source + randomHan(6) + '。', translation: words.join(' ') + '.' };
+});
+
+/**
+ * 基线：原有实现，逐个词条检查词形、逐个释义 indexOf
+ */
+const naiveMatches = (sourceText: string, candidates: WordEntry[], translatedText: string): GlossMatch[] => {
+    const padded = ` ${translatedText.toLowerCase().replace(/[^a-z0-9]+/g, ' ')} `;
+    const hasForm = (form: string) => ['', 's', 'es'].some(suffix => padded.includes(` ${form}${suffix} `));
+    const matches: GlossMatch[] = [];
+    candidates.forEach(entry => {
+        const forms = Array.from(new Set([entry.text, ...(entry.inflections || [])].map(f => f.toLowerCase()))).sort((a, b) => b.length - a.length);
+        const matchedWord = forms.find(hasForm);
+        if (!matchedWord) return;
+        getEntryGlosses(entry).forEach(gloss => {
+            let index = sourceText.indexOf(gloss);
+            while (index !== -1) {
+                matches.push({ text: gloss, entry, matchedWord, index });
+                index = sourceText.indexOf(gloss, index + 1);
+            }
+        });
+    });
+    return matches;
+};
+
+const time = (fn: () => void) => {
+    const start = performance.now();
+    fn();
+    return performance.now() - start;
+};
+
+const median = (values: number[]) => values.sort((a, b) => a - b)[Math.floor(values.length / 2)];
+
+VOCAB_SIZES.forEach(size => {
+    const vocab = buildVocabulary(size).map(e => ({ ...e, glosses: getEntryGlosses(e), glossSource: e.translation }));
+    const sentences = buildSentences(vocab);
+
+    let index = new MatchIndex();
+    const buildMs = time(() => { index = new MatchIndex(vocab, false); });
+
+    // 修改 1% 的词条后增量同步
+    const edited = vocab.map((e, i) => i % 100 === 0 ? { ...e, translation: randomHan(2), glosses: undefined } : e);
+    const syncMs = time(() => index.sync(edited));
+    index.sync(vocab);
+
+    const naiveMs = median(Array.from({ length: ROUNDS }, () => time(() => sentences.forEach(s => naiveMatches(s.source, vocab, s.translation)))));
+    const indexedMs = median(Array.from({ length: ROUNDS }, () => time(() => sentences.forEach(s => findFuzzyMatches(s.source, index, s.translation, 'en', { respectWordBoundaries: false })))));
+
+    // 结果校验：索引命中的位置都应出现在基线结果中
+    const missing = sentences.reduce((count, s) => {
+        const expected = new Set(naiveMatches(s.source, vocab, s.translation).map(m => `${m.index}:${m.text}:${m.entry.id}`));
+        return count + findFuzzyMatches(s.source, index, s.translation, 'en', { respectWordBoundaries: false }).filter(m => !expected.has(`${m.index}:${m.text}:${m.entry.id}`)).length;
+    }, 0);
+
+    console.log(`词库 ${size} 条 · ${SENTENCE_COUNT} 句`);
+    console.log(`  构建索引 ${buildMs.toFixed(1)}ms，增量同步 (1% 变化) ${syncMs.toFixed(1)}ms`);
+    console.log(`  逐词条 indexOf ${naiveMs.toFixed(1)}ms，索引匹配 ${indexedMs.toFixed(1)}ms (${(naiveMs / indexedMs).toFixed(1)}x)`);
+    console.log(`  结果不一致 ${missing} 处`);
+});
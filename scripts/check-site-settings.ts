@@ -0,0 +1,46 @@
+/**
+ * 站点设置合并规则校验：在 Node 中对 resolveSiteSettings 的开关优先级做断言
+ * 运行：npm run check:site-settings
+ */
+import assert from 'node:assert/strict';
+import { AutoTranslateConfig } from '../types';
+import { DEFAULT_AUTO_TRANSLATE, DEFAULT_STYLES } from '../constants';
+import { resolveSiteSettings } from '../utils/site-profile';
+
+const url = (hostname: string, pathname: string = '/') => ({ hostname, pathname });
+const resolve = (overrides: Partial<AutoTranslateConfig>, hostname: string) =>
+    resolveSiteSettings({ ...DEFAULT_AUTO_TRANSLATE, ...overrides }, DEFAULT_STYLES, url(hostname)).shouldTranslate;
+
+const checks: [string, () => void][] = [
+    ['全局关闭时白名单网站不自动翻译', () => {
+        assert.equal(resolve({ enabled: false, whitelist: ['nytimes.com'] }, 'www.nytimes.com'), false);
+    }],
+    ['全局开启时普通网站自动翻译', () => {
+        assert.equal(resolve({ enabled: true }, 'example.com'), true);
+    }],
+    ['仅白名单模式只翻译白名单网站', () => {
+        assert.equal(resolve({ whitelistOnly: true, whitelist: ['nytimes.com'] }, 'www.nytimes.com'), true);
+        assert.equal(resolve({ whitelistOnly: true, whitelist: ['nytimes.com'] }, 'example.com'), false);
+    }],
+    ['仅白名单模式同样服从全局开关', () => {
+        assert.equal(resolve({ enabled: false, whitelistOnly: true, whitelist: ['nytimes.com'] }, 'www.nytimes.com'), false);
+    }],
+    ['站点配置中的开关优先于全局开关', () => {
+        assert.equal(resolve({ enabled: false, siteProfiles: [{ id: '1', pattern: 'example.com', enabled: true }] }, 'example.com'), true);
+    }],
+    ['黑名单网站始终不翻译', () => {
+        assert.equal(resolve({ whitelist: ['google.com'] }, 'www.google.com'), false);
+    }],
+];
+
+let failed = 0;
+checks.forEach(([name, run]) => {
+    try {
+        run();
+        console.log(`✓ ${name}`);
+    } catch (e) {
+        failed++;
+        console.error(`✗ ${name}\n  ${(e as Error).message}`);
+    }
+});
+if (failed > 0) process.exit(1);
@@ -10,6 +10,9 @@ export enum WordCategory {
 // Helper type for UI tabs
 export type WordTab = WordCategory | 'all';
 
+// 学习语言 (译文目标语言)
+export type LearningLanguage = 'en' | 'ja' | 'ko' | 'fr' | 'de' | 'es';
+
 export interface TextWrapperConfig {
   prefix: string;
   suffix: string;
@@ -25,6 +28,8 @@ export interface LayoutSpecificConfig {
   };
 }
 
+export type DensityStrategy = 'first' | 'spread' | 'random' | 'importance';
+
 export interface StyleConfig extends VisualStyle {
   // Layout Settings
   layoutMode: 'horizontal' | 'vertical';
@@ -37,6 +42,7 @@ export interface StyleConfig extends VisualStyle {
   // Density Settings
   densityMode: 'count' | 'percent';
   densityValue: number;
+  densityStrategy: DensityStrategy; // 超出密度限制时保留哪些匹配
 }
 
 export interface OriginalTextConfig {
@@ -62,6 +68,7 @@ export interface SynonymItem {
 export interface WordEntry {
   id: string;
   text: string; // 单词拼写
+  language?: LearningLanguage; // 单词所属语言，缺省为英语
   partOfSpeech?: string; // 词性 (n., v., adj.)
   
   // Phonetics (Audio is generated dynamically via utils/audio.ts)
@@ -108,6 +115,10 @@ export interface WordEntry {
   addedAt: number;
   sourceUrl?: string;
   sourceTimestamp?: number; // Video timestamp in seconds
+  hiddenSites?: string[]; // 在这些网站上不替换该单词 (域名，同时匹配子域名)
+  glosses?: string[]; // 匹配用释义集合：由 translation 规范化生成并缓存，可在单词本中手动编辑
+  glossSource?: string; // 生成 glosses 时的 translation，释义修改后缓存失效
+  allowSubstringMatch?: boolean; // 释义匹配时不检查中文分词边界 (如单字释义需要命中词内)
   scenarioId?: string;
   category: WordCategory;
 }
@@ -222,6 +233,19 @@ export interface InteractionTrigger {
 
 export type BubblePosition = 'top' | 'bottom' | 'left' | 'right';
 
+// 键盘导航：在页面替换词之间移动焦点并操作
+export type KeyboardAction = 'next' | 'prev' | 'toggleBubble' | 'pronounce' | 'promote' | 'demote';
+
+export interface KeyboardShortcut {
+  modifier: ModifierKey;
+  code: string; // KeyboardEvent.code，如 KeyJ、ArrowUp (不受键盘布局与 Alt 组合字符影响)
+}
+
+export interface KeyboardNavigationConfig {
+  enabled: boolean;
+  shortcuts: Record<KeyboardAction, KeyboardShortcut>;
+}
+
 export interface WordInteractionConfig {
   mainTrigger: InteractionTrigger;
   quickAddTrigger: InteractionTrigger;
@@ -239,6 +263,8 @@ export interface WordInteractionConfig {
 
   dismissDelay: number; // ms to wait before hiding bubble
   allowMultipleBubbles: boolean; // if true, new bubbles don't close old ones
+  selectionLookup: boolean; // 划词后显示查词按钮
+  keyboardNavigation?: KeyboardNavigationConfig; // 键盘快捷键导航替换词
   onlineDictUrl?: string; // New: URL template for online dictionary link
 }
 
@@ -286,14 +312,47 @@ export interface PageWidgetConfig {
   cardDisplay: PopupCardItem[];
 }
 
+export interface SiteDensityOverride {
+  densityMode: 'count' | 'percent';
+  densityValue: number;
+}
+
+// 站点配置：按域名或通配路径覆盖全局设置，未设置的字段沿用全局值
+export interface SiteProfile {
+  id: string;
+  pattern: string; // zhihu.com / *.sspai.com / zhihu.com/question/*
+  enabled?: boolean;
+  translateWholePage?: boolean;
+  bilingualMode?: boolean;
+  aggressiveMode?: boolean;
+  density?: Partial<Record<WordCategory, SiteDensityOverride>>;
+  engineId?: string;
+}
+
+// 正文提取规则：按域名指定正文容器与需要排除的区域 (CSS 选择器)
+export interface ContentRule {
+  id: string;
+  pattern: string; // 与站点配置相同的域名/通配路径写法
+  includeSelectors: string[];
+  excludeSelectors: string[];
+}
+
 export interface AutoTranslateConfig {
   enabled: boolean;
   bilingualMode: boolean; 
   translateWholePage: boolean; // New setting for scanning scope
   matchInflections: boolean; // New: Smart morphology matching
   aggressiveMode: boolean; // NEW: Aggressive Dictionary Matching
+  englishAnnotation: boolean; // 英文页面标注：为英文原文中的词库单词附加中文释义
+  subtitleMode: boolean; // 视频字幕模式：对播放器字幕逐行替换，添加单词时记录视频时间点
+  learningLanguage: LearningLanguage; // 学习语言：翻译目标语言、词典与发音均随之切换
+  maxConcurrentRequests: number; // 同时进行的段落翻译请求数
+  minGlossLength: number; // 参与匹配的中文释义最短长度，过短的释义容易误命中
   blacklist: string[];
   whitelist: string[];
+  whitelistOnly: boolean; // 仅在白名单及站点配置列出的网站上翻译
+  siteProfiles: SiteProfile[];
+  contentRules: ContentRule[];
   ttsSpeed: number;
 }
 
@@ -0,0 +1,110 @@
+/**
+ * Aho-Corasick 多模式匹配自动机：一次扫描文本即可找出所有模式串的出现位置
+ * 支持增量增删模式串，失配指针在下次搜索前按需重建
+ */
+
+export interface PatternHit<T> {
+    start: number;
+    end: number;
+    pattern: string;
+    values: T[];
+}
+
+export class AhoCorasick<T> {
+    private children: Map<string, number>[] = [new Map()];
+    private fail: number[] = [0];
+    private output: number[] = [-1]; // 沿失配链最近的有模式串结尾的节点
+    private patternAt: (string | null)[] = [null];
+    private values: (Set<T> | null)[] = [null];
+    private nodeOf = new Map<string, number>();
+    private dirty = false;
+
+    get size() {
+        return this.nodeOf.size;
+    }
+
+    add(pattern: string, value: T) {
+        if (!pattern) return;
+        let node: number | undefined = this.nodeOf.get(pattern);
+        if (node === undefined) {
+            node = 0;
+            for (const ch of pattern.split('')) {
+                let next: number | undefined = this.children[node].get(ch);
+                if (next === undefined) {
+                    next = this.children.length;
+                    this.children.push(new Map());
+                    this.fail.push(0);
+                    this.output.push(-1);
+                    this.patternAt.push(null);
+                    this.values.push(null);
+                    this.children[node].set(ch, next);
+                    this.dirty = true;
+                }
+                node = next;
+            }
+            this.nodeOf.set(pattern, node);
+            this.patternAt[node] = pattern;
+            this.values[node] = new Set();
+            this.dirty = true;
+        }
+        this.values[node]!.add(value);
+    }
+
+    /**
+     * 移除模式串上的某个值；值为空后模式串不再命中 (节点保留，不影响其他模式串)
+     */
+    remove(pattern: string, value: T) {
+        const node = this.nodeOf.get(pattern);
+        if (node === undefined) return;
+        const set = this.values[node]!;
+        set.delete(value);
+        if (set.size > 0) return;
+        this.values[node] = null;
+        this.patternAt[node] = null;
+        this.nodeOf.delete(pattern);
+        this.dirty = true;
+    }
+
+    /**
+     * 广度优先计算失配指针与输出链接
+     */
+    private build() {
+        const queue: number[] = [];
+        this.children[0].forEach(child => {
+            this.fail[child] = 0;
+            queue.push(child);
+        });
+        for (let i = 0; i < queue.length; i++) {
+            const node = queue[i];
+            this.children[node].forEach((child, ch) => {
+                let f = this.fail[node];
+                while (f !== 0 && !this.children[f].has(ch)) f = this.fail[f];
+                const target = this.children[f].get(ch);
+                this.fail[child] = target !== undefined && target !== child ? target : 0;
+                const fallback = this.fail[child];
+                this.output[child] = this.patternAt[fallback] !== null ? fallback : this.output[fallback];
+                queue.push(child);
+            });
+        }
+        this.dirty = false;
+    }
+
+    search(text: string): PatternHit<T>[] {
+        if (this.nodeOf.size === 0) return [];
+        if (this.dirty) this.build();
+        const hits: PatternHit<T>[] = [];
+        let node = 0;
+        for (let i = 0; i < text.length; i++) {
+            const ch = text[i];
+            while (node !== 0 && !this.children[node].has(ch)) node = this.fail[node];
+            node = this.children[node].get(ch) ?? 0;
+            let out = this.patternAt[node] !== null ? node : this.output[node];
+            while (out > 0) {
+                const pattern = this.patternAt[out]!;
+                hits.push({ start: i + 1 - pattern.length, end: i + 1, pattern, values: Array.from(this.values[out]!) });
+                out = this.output[out];
+            }
+        }
+        return hits;
+    }
+}
@@ -0,0 +1,51 @@
+import { WordEntry } from "../types";
+import { getEntryGlosses } from "./gloss";
+import { MatchIndex } from "./match-index";
+
+/**
+ * 英文页面标注：在英文原文中查找词库单词 (含词态变化)，无需调用翻译引擎
+ */
+
+export interface EnglishMatch {
+    start: number;
+    end: number;
+    entry: WordEntry;
+    matchedWord: string; // 原文中实际出现的形态
+}
+
+/**
+ * 判断文本是否为英文段落 (不含中文且包含英文单词)
+ */
+export const isEnglishText = (text: string): boolean => {
+    if (/[\u4e00-\u9fa5]/.test(text)) return false;
+    return (text.match(/[A-Za-z]{2,}/g) || []).length >= 2;
+};
+
+/**
+ * 取词条的首个规范化释义作为标注 (如 "v. 预订；预约" -> "预订")
+ */
+export const getPrimaryGloss = (entry: WordEntry): string => getEntryGlosses(entry)[0] || '';
+
+/**
+ * 在英文文本中查找词库单词 (词形与短语均来自匹配索引，无需每次重建)，返回按位置排序的匹配
+ */
+export const findEnglishMatches = (text: string, index: MatchIndex, filter?: (entry: WordEntry) => boolean): EnglishMatch[] => {
+    const matches: EnglishMatch[] = [
+        // 1. 短语 (多词词条) 按整体匹配，首词可变形，动词短语允许插入宾语 (look it up)
+        ...index.searchPhrases(text, filter).map(hit => ({ start: hit.start, end: hit.end, entry: hit.entry, matchedWord: hit.text })),
+        // 2. 单词按整词匹配
+        ...index.searchForms(text, filter).map(hit => ({ start: hit.start, end: hit.end, entry: hit.entries[0], matchedWord: text.substring(hit.start, hit.end) })),
+    ];
+
+    // 短语优先：按位置排序，重叠时保留先出现且更长的匹配
+    matches.sort((a, b) => a.start - b.start || (b.end - b.start) - (a.end - a.start));
+    const result: EnglishMatch[] = [];
+    let occupiedEnd = -1;
+    for (const match of matches) {
+        if (match.start >= occupiedEnd) {
+            result.push(match);
+            occupiedEnd = match.end;
+        }
+    }
+    return result;
+};
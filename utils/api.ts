@@ -1,11 +1,14 @@
 import { TranslationEngine } from "../types";
 import { getHash, getHmac, toHex } from './crypto';
+import { getCachedTranslation, setCachedTranslation } from './translation-cache';
+import { getEngineLanguageCode } from './languages';
+import { SentenceTranslationResult, joinSentences, splitJoinedTranslation, isAlignmentPlausible } from './sentence-alignment';
 
 /**
  * 模拟 Google 翻译网页版 (多域名兼容版)
  */
 const callGoogleWebSimulation = async (text: string, target: string = 'en'): Promise<string> => {
-    const targetLang = target === 'zh' ? 'zh-CN' : 'en';
+    const targetLang = getEngineLanguageCode('google', target);
     const url = `https://translate.google.com/translate_a/single?client=gtx&sl=auto&tl=${targetLang}&dt=t&q=${encodeURIComponent(text)}`;
 
     try {
@@ -36,7 +39,7 @@ const callGoogleWebSimulation = async (text: string, target: string = 'en'): Pro
  * 修复 401 错误：使用 Bing 官网内部接口而非 Azure 接口
  */
 const callMicrosoftWebSimulation = async (text: string, target: string = 'en'): Promise<string> => {
-    const to = target === 'zh' ? 'zh-Hans' : 'en';
+    const to = getEngineLanguageCode('microsoft', target);
     // 关键修复：使用 Bing 官网的 translatev3 接口
     const url = `https://www.bing.com/ttranslatev3?isGab=1&showoriginal=1`;
     
@@ -77,7 +80,7 @@ const callMicrosoftWebSimulation = async (text: string, target: string = 'en'):
  * 模拟 百度翻译网页版 (修复 1022 错误版)
  */
 const callBaiduWebSimulation = async (text: string, target: string = 'en'): Promise<string> => {
-    const to = target === 'zh' ? 'zh' : 'en';
+    const to = getEngineLanguageCode('baidu', target);
     const url = `https://fanyi.baidu.com/transapi`;
     
     const params = new URLSearchParams();
@@ -123,7 +126,7 @@ const callBaiduWebSimulation = async (text: string, target: string = 'en'): Prom
  * 模拟 DeepL 网页版 JSON-RPC 请求
  */
 const callDeepLWebSimulation = async (text: string, target: string = 'en'): Promise<string> => {
-    const targetLang = target.toUpperCase() === 'ZH' ? 'ZH' : 'EN';
+    const targetLang = getEngineLanguageCode('deepl', target);
     const id = Math.floor(Math.random() * 100000000);
     const iCount = (text.split('i').length - 1) + (text.split('I').length - 1);
     
@@ -199,6 +202,31 @@ const callDeepLWebSimulation = async (text: string, target: string = 'en'): Prom
  * 统一翻译入口
  */
 export const callTencentTranslation = async (engine: TranslationEngine, sourceText: string = 'Hello', target: string = 'en'): Promise<any> => {
+  return callTencentApi(engine, "TextTranslate", {
+    SourceText: sourceText,
+    Source: "auto",
+    Target: target, 
+    ProjectId: Number(engine.projectId) || 0
+  });
+};
+
+/**
+ * 腾讯批量翻译：SourceTextList 与 TargetTextList 按下标一一对应
+ */
+export const callTencentBatchTranslation = async (engine: TranslationEngine, sourceTexts: string[], target: string = 'en'): Promise<string[]> => {
+  const res = await callTencentApi(engine, "TextTranslateBatch", {
+    SourceTextList: sourceTexts,
+    Source: "auto",
+    Target: target,
+    ProjectId: Number(engine.projectId) || 0
+  });
+  return res.Response?.TargetTextList || [];
+};
+
+/**
+ * 腾讯云 API V3 签名请求
+ */
+const callTencentApi = async (engine: TranslationEngine, action: string, body: Record<string, any>): Promise<any> => {
   if (!engine.appId || !engine.secretKey) {
     throw new Error("缺少腾讯翻译 SecretId 或 SecretKey");
   }
@@ -208,18 +236,12 @@ export const callTencentTranslation = async (engine: TranslationEngine, sourceTe
   const ENDPOINT = engine.endpoint || "tmt.tencentcloudapi.com";
   const REGION = engine.region || "ap-shanghai";
   const SERVICE = "tmt";
-  const ACTION = "TextTranslate";
   const VERSION = "2018-03-21";
 
   const now = Math.floor(Date.now() / 1000);
   const date = new Date(now * 1000).toISOString().split('T')[0];
 
-  const payload = JSON.stringify({
-    SourceText: sourceText,
-    Source: "auto",
-    Target: target, 
-    ProjectId: Number(engine.projectId) || 0
-  });
+  const payload = JSON.stringify(body);
 
   const httpRequestMethod = "POST";
   const canonicalUri = "/";
@@ -264,7 +286,7 @@ export const callTencentTranslation = async (engine: TranslationEngine, sourceTe
       "Authorization": authorization,
       "Content-Type": "application/json; charset=utf-8",
       "Host": ENDPOINT,
-      "X-TC-Action": ACTION,
+      "X-TC-Action": action,
       "X-TC-Version": VERSION,
       "X-TC-Timestamp": now.toString(),
       "X-TC-Region": REGION
@@ -284,7 +306,7 @@ export const callNiuTransTranslation = async (engine: TranslationEngine, sourceT
     const endpoint = engine.endpoint || 'https://api.niutrans.com/NiuTransServer/translation';
     const params = new URLSearchParams({
         from: 'auto',
-        to: target === 'zh' ? 'zh' : 'en',
+        to: getEngineLanguageCode('niutrans', target),
         apikey: engine.apiKey,
         src_text: sourceText
     });
@@ -309,7 +331,7 @@ export const callDeepLTranslation = async (engine: TranslationEngine, sourceText
     const params = new URLSearchParams({
         auth_key: engine.apiKey,
         text: sourceText,
-        target_lang: target === 'zh' ? 'ZH' : 'EN'
+        target_lang: getEngineLanguageCode('deepl', target)
     });
     const response = await fetch(`${endpoint}?${params.toString()}`, { method: 'POST' });
     if (!response.ok) throw new Error(`DeepL API 错误: ${response.statusText}`);
@@ -317,8 +339,124 @@ export const callDeepLTranslation = async (engine: TranslationEngine, sourceText
     return { Response: { TargetText: resJson.translations?.[0]?.text || "" } };
 };
 
-export const translateWithEngine = async (engine: TranslationEngine, text: string, target: string = 'en'): Promise<string> => {
+/**
+ * DeepL 官方 API 支持一次提交多个 text 参数，返回的 translations 与输入顺序一致
+ */
+export const callDeepLBatchTranslation = async (engine: TranslationEngine, sourceTexts: string[], target: string = 'en'): Promise<string[]> => {
+    if (!engine.apiKey) throw new Error("缺少 DeepL API Key");
+    const isFree = engine.apiKey.endsWith(':fx');
+    const endpoint = engine.endpoint || (isFree ? 'https://api-free.deepl.com/v2/translate' : 'https://api.deepl.com/v2/translate');
+    const params = new URLSearchParams({ auth_key: engine.apiKey, target_lang: getEngineLanguageCode('deepl', target) });
+    sourceTexts.forEach(text => params.append('text', text));
+    const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: params.toString()
+    });
+    if (!response.ok) throw new Error(`DeepL API 错误: ${response.statusText}`);
+    const resJson = await response.json();
+    return (resJson.translations || []).map((t: any) => t?.text || "");
+};
+
+/**
+ * 统一翻译分发器
+ * 默认优先读取持久化缓存，命中则不再请求网络；测试连接等场景可传 useCache = false 绕过缓存
+ */
+export const translateWithEngine = async (engine: TranslationEngine, text: string, target: string = 'en', useCache: boolean = true): Promise<string> => {
+    if (!engine.isEnabled) throw new Error("引擎未启用");
+    if (useCache) {
+        try {
+            const cached = await getCachedTranslation(engine.id, target, text);
+            if (cached !== null) return cached;
+        } catch (e) {
+            console.warn("[TranslationCache] 读取缓存失败", e);
+        }
+    }
+    const result = await requestEngine(engine, text, target);
+    if (useCache) {
+        setCachedTranslation(engine.id, target, text, result).catch(e => console.warn("[TranslationCache] 写入缓存失败", e));
+    }
+    return result;
+};
+
+/**
+ * 逐句翻译：优先读取逐句缓存，其余句子走引擎原生批量接口；
+ * 不支持批量的引擎合并为一次请求，数量或长度比对不上时退回逐句请求，仍失败的句子标记为未对齐
+ */
+export const translateSentencesWithEngine = async (engine: TranslationEngine, sentences: string[], target: string = 'en', useCache: boolean = true): Promise<SentenceTranslationResult> => {
     if (!engine.isEnabled) throw new Error("引擎未启用");
+    const translations: string[] = sentences.map(() => "");
+    const aligned: boolean[] = sentences.map(() => false);
+
+    if (useCache) {
+        await Promise.all(sentences.map(async (sentence, i) => {
+            try {
+                const cached = await getCachedTranslation(engine.id, target, sentence);
+                if (cached !== null && cached.trim()) { translations[i] = cached; aligned[i] = true; }
+            } catch (e) {
+                console.warn("[TranslationCache] 读取缓存失败", e);
+            }
+        }));
+    }
+
+    const missing = sentences.map((_, i) => i).filter(i => !aligned[i]);
+    if (missing.length === 0) return { translations, aligned };
+    const missingTexts = missing.map(i => sentences[i]);
+
+    // 空译文视为未对齐且不写入缓存，避免空白结果在缓存有效期内一直生效
+    const accept = (index: number, translation: string | undefined) => {
+        if (!translation?.trim()) return;
+        translations[index] = translation;
+        aligned[index] = true;
+        if (useCache) {
+            setCachedTranslation(engine.id, target, sentences[index], translation).catch(e => console.warn("[TranslationCache] 写入缓存失败", e));
+        }
+    };
+
+    let batch: string[] | null = null;
+    if (missingTexts.length === 1) {
+        batch = [await requestEngine(engine, missingTexts[0], target)];
+    } else {
+        batch = await requestEngineBatch(engine, missingTexts, target);
+        if (!batch) {
+            const joined = splitJoinedTranslation(await requestEngine(engine, joinSentences(missingTexts), target));
+            batch = isAlignmentPlausible(missingTexts, joined) ? joined : null;
+        }
+    }
+
+    if (batch && batch.length === missingTexts.length) {
+        missing.forEach((index, i) => accept(index, batch![i]));
+        return { translations, aligned };
+    }
+
+    // 合并结果无法对齐：逐句重新请求 (串行，避免触发网页接口的频率限制)
+    for (const index of missing) {
+        try {
+            const translation = await requestEngine(engine, sentences[index], target);
+            accept(index, translation.trim());
+        } catch (e) {
+            console.warn("[SentenceAlignment] 单句翻译失败", e);
+        }
+    }
+    return { translations, aligned };
+};
+
+/**
+ * 引擎原生的数组输入，返回 null 表示该引擎不支持批量翻译
+ */
+const requestEngineBatch = async (engine: TranslationEngine, texts: string[], target: string): Promise<string[] | null> => {
+    switch (engine.id) {
+        case 'tencent':
+            return callTencentBatchTranslation(engine, texts, target);
+        case 'deepl':
+            if (engine.isWebSimulation || !engine.apiKey) return null;
+            return callDeepLBatchTranslation(engine, texts, target);
+        default:
+            return null;
+    }
+};
+
+const requestEngine = async (engine: TranslationEngine, text: string, target: string): Promise<string> => {
     try {
         switch (engine.id) {
             case 'google': {
@@ -1,3 +1,5 @@
+import { getLanguageProfile } from "./languages";
+
 let cachedVoices: SpeechSynthesisVoice[] = [];
 let isLoaded = false;
 let currentAudio: HTMLAudioElement | null = null; // 追踪当前播放的 HTML5 Audio
@@ -100,7 +102,7 @@ export const playUrl = (url: string, playbackRate: number = 1.0): Promise<void>
 /**
  * 标准浏览器 TTS 兜底播放
  */
-export const playTextToSpeech = async (text: string, accent: 'US' | 'UK' = 'US', rate: number = 1.0, repeat: number = 1) => {
+export const playTextToSpeech = async (text: string, accent: 'US' | 'UK' = 'US', rate: number = 1.0, repeat: number = 1, language: string = 'en') => {
   if (!text || repeat <= 0) return;
   stopAudio();
 
@@ -109,8 +111,9 @@ export const playTextToSpeech = async (text: string, accent: 'US' | 'UK' = 'US',
 
   try {
       const voices = await waitForVoices();
-      const langTag = accent === 'UK' ? 'en-GB' : 'en-US';
-      const targetVoice = voices.find(v => v.lang === langTag) || voices.find(v => v.lang.startsWith('en'));
+      const profile = getLanguageProfile(language);
+      const langTag = profile.ttsLangs[accent];
+      const targetVoice = voices.find(v => v.lang === langTag) || voices.find(v => v.lang.startsWith(profile.code));
 
       for (let i = 0; i < repeat; i++) {
         const utterance = new SpeechSynthesisUtterance(text);
@@ -128,14 +131,19 @@ export const playTextToSpeech = async (text: string, accent: 'US' | 'UK' = 'US',
 
 /**
  * 核心：智能单词发音播放器
- * 策略：有道词典在线音频优先 -> TTS 兜底
+ * 策略：有道词典在线音频优先 -> TTS 兜底 (有道在线音频仅用于英语，其他语言直接使用对应语种的 TTS)
  */
-export const playWordAudio = async (text: string, accent: 'US' | 'UK' = 'US', speed: number = 1.0) => {
+export const playWordAudio = async (text: string, accent: 'US' | 'UK' = 'US', speed: number = 1.0, language: string = 'en') => {
     if (!text) return;
     
     // 强制停止当前正在进行的任何播放，确保发音清晰
     stopAudio();
 
+    if (getLanguageProfile(language).code !== 'en') {
+        await playTextToSpeech(text, accent, speed, 1, language);
+        return;
+    }
+
     // Type 1 = UK, Type 2 = US (有道词典约定)
     const type = accent === 'UK' ? 1 : 2;
     // 增加 timestamp 避免缓存导致的播放失效
@@ -153,7 +161,7 @@ export const playWordAudio = async (text: string, accent: 'US' | 'UK' = 'US', sp
 /**
  * 智能例句朗读
  */
-export const playSentenceAudio = async (text: string, explicitUrl?: string, accent: 'US' | 'UK' = 'US', speed: number = 1.0) => {
+export const playSentenceAudio = async (text: string, explicitUrl?: string, accent: 'US' | 'UK' = 'US', speed: number = 1.0, language: string = 'en') => {
     stopAudio();
     if (explicitUrl) {
         try {
@@ -162,6 +170,11 @@ export const playSentenceAudio = async (text: string, explicitUrl?: string, acce
         } catch(e) { console.warn("Explicit URL failed"); }
     }
 
+    if (getLanguageProfile(language).code !== 'en') {
+        await playTextToSpeech(text, accent, speed, 1, language);
+        return;
+    }
+
     const type = accent === 'UK' ? 1 : 2;
     const url = `https://dict.youdao.com/dictvoice?audio=${encodeURIComponent(text)}&type=${type}&t=${Date.now()}`;
     
@@ -0,0 +1,166 @@
+import { ContentRule } from "../types";
+import { matchSitePattern } from "./site-profile";
+
+// 类名/ID 提示词只作为加减分依据，不再直接剔除节点
+const NEGATIVE_HINT = /comment|footer|footnote|sidebar|sponsor|advert|\bads?\b|share|related|recommend|nav|menu|breadcrumb|toolbar|widget|login|banner|copyright|hot-?list|rank/i;
+const POSITIVE_HINT = /article|body|content|entry|main|post|text|blog|story|detail|rich|markdown|paragraph/i;
+
+// 参与打分的段落级元素
+const PARAGRAPH_SELECTOR = 'p, pre, td, blockquote, li, div, section';
+const BLOCK_TAGS = ['P','DIV','LI','ARTICLE','SECTION','BLOCKQUOTE','PRE','TABLE','UL','OL','H1','H2','H3','H4','H5','H6'];
+
+const MIN_PARAGRAPH_LENGTH = 20;
+const MIN_TOP_SCORE = 20;
+const ANCESTOR_LEVELS = 5;
+
+export interface ContentSelectors {
+    include: string[];
+    exclude: string[];
+}
+
+const getTextLength = (el: Element): number => (el.textContent || '').replace(/\s+/g, '').length;
+
+/**
+ * 链接密度：链接文字占全部文字的比例，导航栏、推荐列表通常接近 1
+ */
+export const getLinkDensity = (el: Element): number => {
+    const textLength = getTextLength(el);
+    if (textLength === 0) return 0;
+    let linkLength = 0;
+    el.querySelectorAll('a').forEach(a => { linkLength += getTextLength(a); });
+    return Math.min(1, linkLength / textLength);
+};
+
+const getClassWeight = (el: Element): number => {
+    const identity = `${el.id} ${typeof el.className === 'string' ? el.className : ''}`;
+    let weight = 0;
+    if (NEGATIVE_HINT.test(identity)) weight -= 25;
+    if (POSITIVE_HINT.test(identity)) weight += 25;
+    return weight;
+};
+
+const getBaseScore = (el: Element): number => {
+    switch (el.tagName) {
+        case 'ARTICLE': case 'MAIN': return 10;
+        case 'DIV': case 'SECTION': return 5;
+        case 'PRE': case 'TD': case 'BLOCKQUOTE': return 3;
+        case 'UL': case 'OL': case 'DL': case 'FORM': case 'ADDRESS': return -3;
+        case 'NAV': case 'ASIDE': case 'FOOTER': case 'HEADER': return -10;
+        default: return 0;
+    }
+};
+
+/**
+ * Readability 式正文识别：按段落的文字量与标点数给祖先容器累加分数，
+ * 再按链接密度折算，取得分最高的容器及与其得分相近的兄弟容器
+ */
+export const detectMainContent = (doc: Document = document): Element[] => {
+    const body = doc.body;
+    if (!body) return [];
+    const scores = new Map<Element, number>();
+
+    const initScore = (el: Element) => {
+        if (!scores.has(el)) scores.set(el, getBaseScore(el) + getClassWeight(el));
+    };
+
+    body.querySelectorAll(PARAGRAPH_SELECTOR).forEach(p => {
+        // div/section/li 仅在其不含块级子元素时视为段落
+        if (['DIV','SECTION','LI'].includes(p.tagName) && Array.from(p.children).some(c => BLOCK_TAGS.includes(c.tagName))) return;
+        const text = (p.textContent || '').replace(/\s+/g, '');
+        if (text.length < MIN_PARAGRAPH_LENGTH) return;
+
+        const commas = (text.match(/[,，、；;。]/g) || []).length;
+        const contentScore = 1 + commas + Math.min(Math.floor(text.length / 100), 3);
+
+        let ancestor = p.parentElement;
+        for (let level = 0; ancestor && ancestor !== body && level < ANCESTOR_LEVELS; level++) {
+            initScore(ancestor);
+            const divider = level === 0 ? 1 : level === 1 ? 2 : level * 3;
+            scores.set(ancestor, scores.get(ancestor)! + contentScore / divider);
+            ancestor = ancestor.parentElement;
+        }
+    });
+
+    let top: Element | null = null;
+    let topScore = 0;
+    const finalScores = new Map<Element, number>();
+    for (const [el, score] of scores) {
+        const finalScore = score * (1 - getLinkDensity(el));
+        finalScores.set(el, finalScore);
+        if (finalScore > topScore) { top = el; topScore = finalScore; }
+    }
+    if (!top || topScore < MIN_TOP_SCORE) return [];
+
+    // 正文被拆分到多个兄弟容器时一并收录
+    const threshold = Math.max(10, topScore * 0.2);
+    const parent = top.parentElement;
+    if (!parent) return [top];
+    return Array.from(parent.children).filter(el => el === top || (finalScores.get(el) || 0) >= threshold);
+};
+
+/**
+ * 汇总当前页面命中的正文提取规则
+ */
+export const getContentSelectors = (rules: ContentRule[] | undefined, url: { hostname: string; pathname: string }): ContentSelectors => {
+    const result: ContentSelectors = { include: [], exclude: [] };
+    if (!Array.isArray(rules)) return result;
+    rules.filter(r => r.pattern && matchSitePattern(r.pattern, url)).forEach(r => {
+        result.include.push(...(r.includeSelectors || []).filter(s => s.trim()));
+        result.exclude.push(...(r.excludeSelectors || []).filter(s => s.trim()));
+    });
+    return result;
+};
+
+/**
+ * 安全地判断元素是否匹配任一选择器，用户填写的非法选择器会被忽略
+ */
+export const matchesAnySelector = (el: Element, selectors: string[]): boolean => {
+    return selectors.some(selector => {
+        try { return el.matches(selector); } catch { return false; }
+    });
+};
+
+export const queryAllSelectors = (root: ParentNode, selectors: string[]): Element[] => {
+    const found: Element[] = [];
+    selectors.forEach(selector => {
+        try { root.querySelectorAll(selector).forEach(el => found.push(el)); } catch { /* 非法选择器 */ }
+    });
+    // 去重并剔除被其他结果包含的元素
+    const unique = Array.from(new Set(found));
+    return unique.filter(el => !unique.some(other => other !== el && other.contains(el)));
+};
+
+/**
+ * 判断元素是否为导航、推荐列表等链接堆积区域
+ */
+export const isLinkCluster = (el: Element): boolean => {
+    const textLength = getTextLength(el);
+    if (textLength === 0) return false;
+    return getLinkDensity(el) > 0.5 && textLength < 300;
+};
+
+// 动态生成的类名 (哈希、状态类) 不适合作为选择器
+const isStableClass = (cls: string) => !cls.startsWith('context-lingo') && !/\d{3,}|^(is-|has-)?(active|hover|open|selected|current)$/.test(cls) && !/^[a-z]{1,4}-(?=[\w-]*[0-9A-Z])[\w-]{5,}$/.test(cls);
+
+/**
+ * 为元素生成尽量简短且在当前页面唯一的 CSS 选择器
+ */
+export const buildElementSelector = (el: Element): string => {
+    const doc = el.ownerDocument;
+    const parts: string[] = [];
+    let node: Element | null = el;
+    while (node && node !== doc.body && node !== doc.documentElement) {
+        if (node.id && !/\d{3,}/.test(node.id)) {
+            parts.unshift(`#${CSS.escape(node.id)}`);
+            return parts.join(' > ');
+        }
+        let part = node.tagName.toLowerCase();
+        const classes = Array.from(node.classList).filter(isStableClass).slice(0, 2);
+        if (classes.length) part += classes.map(c => `.${CSS.escape(c)}`).join('');
+        parts.unshift(part);
+        const selector = parts.join(' > ');
+        if (doc.querySelectorAll(selector).length === 1) return selector;
+        node = node.parentElement;
+    }
+    return parts.join(' > ') || 'body';
+};
@@ -0,0 +1,95 @@
+import { WordEntry, WordCategory, StyleConfig, DensityStrategy } from "../types";
+
+export const DENSITY_STRATEGY_LABELS: Record<DensityStrategy, string> = {
+    first: '按出现顺序',
+    spread: '均匀分布',
+    random: '随机 (页面稳定)',
+    importance: '按重要程度',
+};
+
+interface DensityCandidate {
+    start: number;
+    end: number;
+    entry: WordEntry;
+}
+
+/**
+ * FNV-1a 32 位哈希，用于生成稳定的伪随机序
+ */
+const hashString = (input: string): number => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < input.length; i++) {
+        hash ^= input.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+};
+
+const getLimit = (count: number, style?: StyleConfig): number => {
+    if (!style) return count;
+    if (style.densityMode === 'count') return Math.min(count, style.densityValue);
+    if (style.densityMode === 'percent') return Math.ceil(count * (style.densityValue / 100));
+    return count;
+};
+
+/**
+ * 按策略从同一类别的候选中选出 limit 个 (输入已按位置排序)
+ */
+const pickByStrategy = <T extends DensityCandidate>(matches: T[], limit: number, strategy: DensityStrategy, seed: string): T[] => {
+    if (limit >= matches.length) return matches;
+    if (limit <= 0) return [];
+
+    switch (strategy) {
+        case 'spread': {
+            // 将段落等分为 limit 个区间，每个区间取中间位置的候选
+            const picked = new Set<number>();
+            for (let i = 0; i < limit; i++) {
+                picked.add(Math.min(matches.length - 1, Math.floor((i + 0.5) * matches.length / limit)));
+            }
+            return matches.filter((_, idx) => picked.has(idx));
+        }
+        case 'random': {
+            // 以页面为种子的确定性随机：同一页面刷新后选中的词保持不变
+            return matches
+                .map(m => ({ m, key: hashString(`${seed}|${m.start}|${m.entry.id}`) }))
+                .sort((a, b) => a.key - b.key)
+                .slice(0, limit)
+                .map(({ m }) => m);
+        }
+        case 'importance': {
+            // 柯林斯星级高者优先，其次 COCA 排名靠前者优先 (0 视为未知)
+            const rank = (e: WordEntry) => e.cocaRank && e.cocaRank > 0 ? e.cocaRank : Number.MAX_SAFE_INTEGER;
+            return [...matches]
+                .sort((a, b) => (b.entry.importance || 0) - (a.entry.importance || 0) || rank(a.entry) - rank(b.entry) || a.start - b.start)
+                .slice(0, limit);
+        }
+        case 'first':
+        default:
+            return matches.slice(0, limit);
+    }
+};
+
+/**
+ * 按类别应用替换密度限制
+ * @param seed 随机策略使用的种子，通常为页面地址
+ */
+export const applyDensityFilter = <T extends DensityCandidate>(
+    candidates: T[],
+    styles: Record<WordCategory, StyleConfig>,
+    seed: string
+): T[] => {
+    const result: T[] = [];
+
+    for (const cat of Object.values(WordCategory)) {
+        const matches = candidates
+            .filter(c => c.entry.category === cat)
+            .sort((a, b) => a.start - b.start);
+        if (matches.length === 0) continue;
+
+        const styleConfig = styles[cat];
+        const limit = getLimit(matches.length, styleConfig);
+        result.push(...pickByStrategy(matches, limit, styleConfig?.densityStrategy || 'first', seed));
+    }
+
+    return result.sort((a, b) => a.start - b.start);
+};
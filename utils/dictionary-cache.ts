@@ -0,0 +1,139 @@
+import { RichDictionaryResult } from '../types';
+import { openDatabase, promisifyRequest, waitForTransaction } from './idb';
+
+/**
+ * 词典查询持久化缓存 (IndexedDB，运行于 Background)
+ * 同时保存有道原始 JSON (单词详情页使用) 与解析后的结果 (查词/激进匹配使用)
+ * 键 = 有道语种 + 小写单词；超过有效期的记录仅在网络不可用时兜底使用，超出容量按最近访问时间淘汰
+ */
+
+const DB_NAME = 'context-lingo-dictionary-cache';
+const STORE = 'lookups';
+export const DICTIONARY_CACHE_MAX_ENTRIES = 3000;
+export const DICTIONARY_CACHE_TTL_DAYS = 30;
+const TTL_MS = DICTIONARY_CACHE_TTL_DAYS * 24 * 60 * 60 * 1000;
+
+export interface DictionaryCacheRecord {
+    key: string;
+    word: string;
+    lang: string;
+    raw: any; // 有道 jsonapi 原始响应
+    result: RichDictionaryResult;
+    size: number; // 原始响应的字符数，用于统计占用空间
+    createdAt: number;
+    lastAccess: number;
+}
+
+export interface DictionaryCacheStats {
+    count: number;
+    maxEntries: number;
+    bytes: number;
+    expired: number;
+    ttlDays: number;
+}
+
+const getDb = () => openDatabase(DB_NAME, 1, db => {
+    if (!db.objectStoreNames.contains(STORE)) {
+        const store = db.createObjectStore(STORE, { keyPath: 'key' });
+        store.createIndex('lastAccess', 'lastAccess');
+    }
+});
+
+const buildKey = (word: string, lang: string) => `${lang}|${word.trim().toLowerCase()}`;
+
+export const isDictionaryRecordFresh = (record: DictionaryCacheRecord, now: number = Date.now()) => now - record.createdAt < TTL_MS;
+
+/**
+ * 读取缓存记录 (含已过期的)，由调用方决定是否使用过期数据
+ */
+export const getCachedLookup = async (word: string, lang: string): Promise<DictionaryCacheRecord | null> => {
+    const db = await getDb();
+    const tx = db.transaction(STORE, 'readwrite');
+    const store = tx.objectStore(STORE);
+    const record = await promisifyRequest<DictionaryCacheRecord | undefined>(store.get(buildKey(word, lang)));
+    if (!record) return null;
+    // 命中后刷新访问时间，维持 LRU 顺序
+    store.put({ ...record, lastAccess: Date.now() });
+    await waitForTransaction(tx);
+    return record;
+};
+
+export const setCachedLookup = async (word: string, lang: string, raw: any, result: RichDictionaryResult): Promise<void> => {
+    const db = await getDb();
+    const now = Date.now();
+    const tx = db.transaction(STORE, 'readwrite');
+    tx.objectStore(STORE).put({
+        key: buildKey(word, lang),
+        word: word.trim().toLowerCase(),
+        lang,
+        raw,
+        result,
+        size: JSON.stringify(raw).length,
+        createdAt: now,
+        lastAccess: now
+    } as DictionaryCacheRecord);
+    await waitForTransaction(tx);
+    await evictOverflow(db);
+};
+
+/**
+ * 超出容量时按 lastAccess 从旧到新删除多余记录
+ */
+const evictOverflow = async (db: IDBDatabase) => {
+    const tx = db.transaction(STORE, 'readwrite');
+    const store = tx.objectStore(STORE);
+    const count = await promisifyRequest(store.count());
+    let overflow = count - DICTIONARY_CACHE_MAX_ENTRIES;
+    if (overflow > 0) {
+        const cursorRequest = store.index('lastAccess').openCursor();
+        cursorRequest.onsuccess = () => {
+            const cursor = cursorRequest.result;
+            if (!cursor || overflow <= 0) return;
+            cursor.delete();
+            overflow--;
+            cursor.continue();
+        };
+    }
+    await waitForTransaction(tx);
+};
+
+/**
+ * 清除缓存：传入单词时只清除该词 (所有语种)，否则清空全部
+ */
+export const invalidateDictionaryCache = async (word?: string): Promise<void> => {
+    const db = await getDb();
+    const tx = db.transaction(STORE, 'readwrite');
+    const store = tx.objectStore(STORE);
+    if (!word) {
+        store.clear();
+    } else {
+        const target = word.trim().toLowerCase();
+        const cursorRequest = store.openCursor();
+        cursorRequest.onsuccess = () => {
+            const cursor = cursorRequest.result;
+            if (!cursor) return;
+            if ((cursor.value as DictionaryCacheRecord).word === target) cursor.delete();
+            cursor.continue();
+        };
+    }
+    await waitForTransaction(tx);
+};
+
+export const getDictionaryCacheStats = async (): Promise<DictionaryCacheStats> => {
+    const db = await getDb();
+    const tx = db.transaction(STORE, 'readonly');
+    const stats: DictionaryCacheStats = { count: 0, maxEntries: DICTIONARY_CACHE_MAX_ENTRIES, bytes: 0, expired: 0, ttlDays: DICTIONARY_CACHE_TTL_DAYS };
+    const now = Date.now();
+    const cursorRequest = tx.objectStore(STORE).openCursor();
+    cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor) return;
+        const record = cursor.value as DictionaryCacheRecord;
+        stats.count++;
+        stats.bytes += record.size || 0;
+        if (!isDictionaryRecordFresh(record, now)) stats.expired++;
+        cursor.continue();
+    };
+    await waitForTransaction(tx);
+    return stats;
+};
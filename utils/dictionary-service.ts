@@ -1,11 +1,12 @@
 
-import { RichDictionaryResult, WordEntry } from "../types";
+import { RichDictionaryResult, WordEntry, LearningLanguage, DictionaryMeaningCard, PhraseItem } from "../types";
 import { browser } from "wxt/browser";
 
-export const fetchRichWordDetails = async (word: string): Promise<RichDictionaryResult> => {
+export const fetchRichWordDetails = async (word: string, language?: LearningLanguage): Promise<RichDictionaryResult> => {
   const response = await browser.runtime.sendMessage({
     action: 'LOOKUP_WORD_RICH',
-    text: word
+    text: word,
+    language
   });
 
   if (!response) throw new Error("Service unavailable");
@@ -14,6 +15,37 @@ export const fetchRichWordDetails = async (word: string): Promise<RichDictionary
   return response.data;
 };
 
+/**
+ * 将查词结果中的一张释义卡片转换为词条数据 (公共信息取自整体结果)
+ */
+export const buildEntryFromCard = (result: RichDictionaryResult, card: DictionaryMeaningCard, image?: string | null): Partial<WordEntry> => ({
+    text: result.text,
+    phoneticUk: result.phoneticUk,
+    phoneticUs: result.phoneticUs,
+    translation: card.defCn,
+    englishDefinition: card.defEn,
+    partOfSpeech: card.partOfSpeech,
+    inflections: [...new Set([...result.inflections, ...card.inflections])],
+    dictionaryExample: card.example,
+    dictionaryExampleTranslation: card.exampleTrans,
+    tags: card.tags,
+    importance: card.importance,
+    cocaRank: Number(card.cocaRank) || 0,
+    image: image || undefined,
+    video: result.video,
+    phrases: result.phrases,
+    roots: result.roots,
+    synonyms: result.synonyms,
+});
+
+/**
+ * 将查词结果中的常用短语转换为独立词条 (匹配时按短语整体处理)
+ */
+export const buildEntryFromPhrase = (phrase: PhraseItem): Partial<WordEntry> => ({
+    text: phrase.text.trim(),
+    translation: phrase.trans,
+});
+
 /**
  * Adapter for bulk import in WordManager.tsx.
  * Maps the RichDictionaryResult to an array of Partial<WordEntry> to satisfy the legacy import logic.
@@ -0,0 +1,103 @@
+/**
+ * 跨越 Shadow DOM 与同源 iframe 的 DOM 辅助函数
+ * closed shadow root 与跨域 iframe 无法访问，会被静默忽略
+ */
+
+/**
+ * 获取同源 iframe 的文档，跨域或尚未加载时返回 null
+ */
+export const getFrameDocument = (frame: HTMLIFrameElement): Document | null => {
+    try {
+        const doc = frame.contentDocument;
+        // 访问 body 可能在跨域时抛错，需一并放在 try 中
+        return doc && doc.body ? doc : null;
+    } catch {
+        return null;
+    }
+};
+
+/**
+ * 收集根节点下 (含嵌套) 的所有 open shadow root
+ */
+export const collectShadowRoots = (root: Node): ShadowRoot[] => {
+    const result: ShadowRoot[] = [];
+    const visit = (node: Node) => {
+        const doc = node.nodeType === Node.DOCUMENT_NODE ? node as Document : node.ownerDocument || document;
+        const walker = doc.createTreeWalker(node, NodeFilter.SHOW_ELEMENT);
+        let current: Node | null = node.nodeType === Node.ELEMENT_NODE ? node : walker.nextNode();
+        while (current) {
+            const shadow = (current as Element).shadowRoot;
+            if (shadow) {
+                result.push(shadow);
+                visit(shadow);
+            }
+            current = walker.nextNode();
+        }
+    };
+    visit(root);
+    return result;
+};
+
+/**
+ * 收集文档中 (含嵌套) 可访问的同源 iframe 文档
+ */
+export const collectFrameDocuments = (doc: Document = document): Document[] => {
+    const result: Document[] = [];
+    const visit = (d: Document) => {
+        const roots: ParentNode[] = [d, ...collectShadowRoots(d)];
+        roots.forEach(root => root.querySelectorAll('iframe').forEach(frame => {
+            const frameDoc = getFrameDocument(frame as HTMLIFrameElement);
+            if (frameDoc && !result.includes(frameDoc)) {
+                result.push(frameDoc);
+                visit(frameDoc);
+            }
+        }));
+    };
+    visit(doc);
+    return result;
+};
+
+/**
+ * 在文档、其中的 open shadow root 以及同源 iframe 中查询选择器
+ */
+export const querySelectorAllDeep = (selector: string, doc: Document = document): Element[] => {
+    const result: Element[] = [];
+    [doc, ...collectFrameDocuments(doc)].forEach(d => {
+        [d, ...collectShadowRoots(d)].forEach(root => {
+            root.querySelectorAll(selector).forEach(el => result.push(el));
+        });
+    });
+    return result;
+};
+
+/**
+ * 事件的真实目标：open shadow root 内的事件冒泡到 document 时会被重定向到宿主元素
+ */
+export const getEventTarget = (e: Event): Element | null => {
+    const path = e.composedPath();
+    const target = (path.length > 0 ? path[0] : e.target) as Node | null;
+    if (!target) return null;
+    return target.nodeType === Node.ELEMENT_NODE ? target as Element : target.parentElement;
+};
+
+/**
+ * 将元素或选区的位置换算为顶层窗口视口坐标 (逐级累加所在 iframe 的偏移)
+ */
+export const getRectInTopWindow = (target: Element | Range): DOMRect => {
+    const rect = target.getBoundingClientRect();
+    let x = rect.left;
+    let y = rect.top;
+    // iframe 中的选区属于另一个 realm，不能用 instanceof Range 判断
+    const doc = 'startContainer' in target ? target.startContainer.ownerDocument : target.ownerDocument;
+    let view = doc?.defaultView;
+    try {
+        while (view && view !== window.top && view.frameElement) {
+            const frame = view.frameElement as HTMLElement;
+            const frameRect = frame.getBoundingClientRect();
+            x += frameRect.left + frame.clientLeft;
+            y += frameRect.top + frame.clientTop;
+            view = frame.ownerDocument.defaultView;
+        }
+    } catch { /* 跨域父窗口，保留已累加的偏移 */ }
+    return new DOMRect(x, y, rect.width, rect.height);
+};
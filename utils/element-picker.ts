@@ -0,0 +1,102 @@
+import { buildElementSelector } from "./content-extraction";
+
+export type ElementPickerMode = 'include' | 'exclude';
+
+interface ElementPickerOptions {
+    mode: ElementPickerMode;
+    onPick: (selector: string, element: Element) => void;
+    onCancel?: () => void;
+}
+
+const MODE_COLORS: Record<ElementPickerMode, string> = {
+    include: '#16a34a',
+    exclude: '#dc2626',
+};
+
+const MODE_LABELS: Record<ElementPickerMode, string> = {
+    include: '选取正文区域',
+    exclude: '选取排除区域',
+};
+
+/**
+ * 页面元素选取模式：鼠标悬停高亮元素，点击记录其选择器，Esc 取消
+ * 返回用于提前结束选取的函数
+ */
+export const startElementPicker = ({ mode, onPick, onCancel }: ElementPickerOptions): (() => void) => {
+    const color = MODE_COLORS[mode];
+
+    // 标记为插件容器，避免被扫描和增量监听处理
+    const overlay = document.createElement('div');
+    overlay.setAttribute('data-context-lingo-container', 'picker');
+    overlay.style.cssText = `position:fixed;pointer-events:none;z-index:2147483647;border:2px solid ${color};background:${color}1a;border-radius:3px;transition:all 60ms ease-out;display:none;`;
+
+    const label = document.createElement('div');
+    label.setAttribute('data-context-lingo-container', 'picker');
+    label.style.cssText = `position:fixed;top:12px;left:50%;transform:translateX(-50%);z-index:2147483647;pointer-events:none;background:${color};color:#fff;font:12px/1.6 system-ui,sans-serif;padding:4px 12px;border-radius:6px;box-shadow:0 4px 12px rgba(0,0,0,.15);max-width:80vw;white-space:nowrap;overflow:hidden;text-overflow:ellipsis;`;
+    label.textContent = `${MODE_LABELS[mode]}：点击页面元素，Esc 取消`;
+
+    document.documentElement.append(overlay, label);
+
+    let current: Element | null = null;
+
+    const highlight = (el: Element) => {
+        current = el;
+        const rect = el.getBoundingClientRect();
+        overlay.style.display = 'block';
+        overlay.style.top = `${rect.top}px`;
+        overlay.style.left = `${rect.left}px`;
+        overlay.style.width = `${rect.width}px`;
+        overlay.style.height = `${rect.height}px`;
+        label.textContent = `${MODE_LABELS[mode]}：${buildElementSelector(el)}`;
+    };
+
+    const resolveTarget = (target: EventTarget | null): Element | null => {
+        if (!(target instanceof Element)) return null;
+        // 避免选中插件自身插入的替换词
+        const el = target.closest('.context-lingo-word')?.parentElement || target;
+        if (el === document.body || el === document.documentElement) return null;
+        return el;
+    };
+
+    const onMouseMove = (e: MouseEvent) => {
+        const el = resolveTarget(e.target);
+        if (el && el !== current) highlight(el);
+    };
+
+    const onClick = (e: MouseEvent) => {
+        e.preventDefault();
+        e.stopPropagation();
+        const el = resolveTarget(e.target) || current;
+        stop();
+        if (el) onPick(buildElementSelector(el), el);
+        else onCancel?.();
+    };
+
+    // 吞掉按下事件，防止触发页面上的链接或按钮
+    const swallow = (e: Event) => { e.preventDefault(); e.stopPropagation(); };
+
+    const onKeyDown = (e: KeyboardEvent) => {
+        if (e.key !== 'Escape') return;
+        e.preventDefault();
+        stop();
+        onCancel?.();
+    };
+
+    const stop = () => {
+        document.removeEventListener('mousemove', onMouseMove, true);
+        document.removeEventListener('click', onClick, true);
+        document.removeEventListener('mousedown', swallow, true);
+        document.removeEventListener('mouseup', swallow, true);
+        document.removeEventListener('keydown', onKeyDown, true);
+        overlay.remove();
+        label.remove();
+    };
+
+    document.addEventListener('mousemove', onMouseMove, true);
+    document.addEventListener('click', onClick, true);
+    document.addEventListener('mousedown', swallow, true);
+    document.addEventListener('mouseup', swallow, true);
+    document.addEventListener('keydown', onKeyDown, true);
+
+    return stop;
+};
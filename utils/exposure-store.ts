@@ -0,0 +1,113 @@
+import { openDatabase, promisifyRequest, waitForTransaction } from './idb';
+
+/**
+ * 单词曝光与交互事件存储 (IndexedDB，运行于 Background)
+ * 记录每个词条在网页上被展示、悬停查看、播放发音及快速添加的次数，附带网站与时间
+ */
+
+const DB_NAME = 'context-lingo-exposure';
+const STORE = 'events';
+export const EXPOSURE_MAX_EVENTS = 100000;
+
+export type ExposureEventType = 'impression' | 'hover' | 'pronounce' | 'quick_add';
+
+export interface ExposureEvent {
+    entryId: string;
+    type: ExposureEventType;
+    domain: string;
+    timestamp: number;
+}
+
+export interface ExposureStats {
+    impressions: number;
+    hovers: number;
+    pronunciations: number;
+    quickAdds: number;
+    domains: string[];
+    lastSeen?: number; // 最近一次在页面上出现的时间
+}
+
+const getDb = () => openDatabase(DB_NAME, 1, db => {
+    if (!db.objectStoreNames.contains(STORE)) {
+        const store = db.createObjectStore(STORE, { keyPath: 'id', autoIncrement: true });
+        store.createIndex('entryId', 'entryId');
+        store.createIndex('timestamp', 'timestamp');
+    }
+});
+
+export const createEmptyExposureStats = (): ExposureStats => ({ impressions: 0, hovers: 0, pronunciations: 0, quickAdds: 0, domains: [] });
+
+const STAT_FIELDS: Record<ExposureEventType, keyof Omit<ExposureStats, 'domains' | 'lastSeen'>> = {
+    impression: 'impressions',
+    hover: 'hovers',
+    pronounce: 'pronunciations',
+    quick_add: 'quickAdds'
+};
+
+const accumulate = (stats: ExposureStats, event: ExposureEvent) => {
+    stats[STAT_FIELDS[event.type]]++;
+    if (event.domain && !stats.domains.includes(event.domain)) stats.domains.push(event.domain);
+    if (event.type === 'impression' && (!stats.lastSeen || event.timestamp > stats.lastSeen)) stats.lastSeen = event.timestamp;
+};
+
+export const recordExposureEvents = async (events: ExposureEvent[]): Promise<void> => {
+    const valid = events.filter(e => e && e.entryId && STAT_FIELDS[e.type]);
+    if (valid.length === 0) return;
+    const db = await getDb();
+    const tx = db.transaction(STORE, 'readwrite');
+    const store = tx.objectStore(STORE);
+    valid.forEach(e => store.add({ entryId: e.entryId, type: e.type, domain: e.domain || '', timestamp: e.timestamp || Date.now() }));
+    await waitForTransaction(tx);
+    await evictOverflow(db);
+};
+
+/**
+ * 超出容量时从最早的事件开始删除
+ */
+const evictOverflow = async (db: IDBDatabase) => {
+    const tx = db.transaction(STORE, 'readwrite');
+    const store = tx.objectStore(STORE);
+    const count = await promisifyRequest(store.count());
+    let overflow = count - EXPOSURE_MAX_EVENTS;
+    if (overflow > 0) {
+        const cursorRequest = store.index('timestamp').openCursor();
+        cursorRequest.onsuccess = () => {
+            const cursor = cursorRequest.result;
+            if (!cursor || overflow <= 0) return;
+            cursor.delete();
+            overflow--;
+            cursor.continue();
+        };
+    }
+    await waitForTransaction(tx);
+};
+
+/**
+ * 按词条汇总事件；不传 entryIds 时汇总全部词条
+ */
+export const getExposureStats = async (entryIds?: string[]): Promise<Record<string, ExposureStats>> => {
+    const db = await getDb();
+    const tx = db.transaction(STORE, 'readonly');
+    const store = tx.objectStore(STORE);
+    const result: Record<string, ExposureStats> = {};
+    const add = (event: ExposureEvent) => {
+        if (!result[event.entryId]) result[event.entryId] = createEmptyExposureStats();
+        accumulate(result[event.entryId], event);
+    };
+
+    if (entryIds) {
+        const index = store.index('entryId');
+        const lists = await Promise.all(entryIds.map(id => promisifyRequest<ExposureEvent[]>(index.getAll(IDBKeyRange.only(id)))));
+        lists.forEach(list => list.forEach(add));
+    } else {
+        const cursorRequest = store.openCursor();
+        cursorRequest.onsuccess = () => {
+            const cursor = cursorRequest.result;
+            if (!cursor) return;
+            add(cursor.value);
+            cursor.continue();
+        };
+        await waitForTransaction(tx);
+    }
+    return result;
+};
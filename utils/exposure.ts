@@ -0,0 +1,81 @@
+import { browser } from 'wxt/browser';
+import { ExposureEvent, ExposureEventType, ExposureStats, createEmptyExposureStats } from './exposure-store';
+
+/**
+ * 单词曝光统计：内容脚本侧批量上报，以及统计结果的合并与文案
+ */
+
+const FLUSH_DELAY = 5000;
+const MAX_BATCH_SIZE = 200;
+
+export interface ExposureTracker {
+    record: (entryId: string, type: ExposureEventType) => void;
+    flush: () => void;
+}
+
+/**
+ * 创建事件批量上报器：事件先在页面内排队，定时或积累到一定数量后一次性发送给 Background
+ * 页面隐藏或卸载时立即发送，避免丢失最后一批
+ */
+export const createExposureTracker = (): ExposureTracker => {
+    let queue: ExposureEvent[] = [];
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const flush = () => {
+        if (timer) { clearTimeout(timer); timer = null; }
+        if (queue.length === 0) return;
+        const events = queue;
+        queue = [];
+        browser.runtime.sendMessage({ action: 'RECORD_EXPOSURE_EVENTS', events }).catch(() => {});
+    };
+
+    const record = (entryId: string, type: ExposureEventType) => {
+        if (!entryId) return;
+        queue.push({ entryId, type, domain: location.hostname.replace(/^www\./, ''), timestamp: Date.now() });
+        if (queue.length >= MAX_BATCH_SIZE) flush();
+        else if (!timer) timer = setTimeout(flush, FLUSH_DELAY);
+    };
+
+    window.addEventListener('pagehide', flush);
+    document.addEventListener('visibilitychange', () => {
+        if (document.visibilityState === 'hidden') flush();
+    });
+
+    return { record, flush };
+};
+
+/**
+ * 合并多个词条的统计 (同一单词的多个释义词条)，网站去重
+ */
+export const mergeExposureStats = (list: ExposureStats[]): ExposureStats => {
+    return list.reduce((acc, stats) => ({
+        impressions: acc.impressions + stats.impressions,
+        hovers: acc.hovers + stats.hovers,
+        pronunciations: acc.pronunciations + stats.pronunciations,
+        quickAdds: acc.quickAdds + stats.quickAdds,
+        domains: Array.from(new Set([...acc.domains, ...stats.domains])),
+        lastSeen: Math.max(acc.lastSeen || 0, stats.lastSeen || 0) || undefined
+    }), createEmptyExposureStats());
+};
+
+/**
+ * 相对时间：今天 / 昨天 / N 天前 / 日期
+ */
+export const formatLastSeen = (timestamp: number, now: number = Date.now()): string => {
+    const startOfDay = (t: number) => { const d = new Date(t); d.setHours(0, 0, 0, 0); return d.getTime(); };
+    const days = Math.round((startOfDay(now) - startOfDay(timestamp)) / 86400000);
+    if (days <= 0) return '今天';
+    if (days === 1) return '昨天';
+    if (days < 30) return `${days} 天前`;
+    return new Date(timestamp).toLocaleDateString();
+};
+
+/**
+ * 统计摘要文案，如 "见过 37 次，来自 12 个网站，最近一次在昨天"
+ */
+export const formatExposureSummary = (stats: ExposureStats): string => {
+    if (stats.impressions === 0) return '尚未在网页中见过';
+    const parts = [`见过 ${stats.impressions} 次`, `来自 ${stats.domains.length} 个网站`];
+    if (stats.lastSeen) parts.push(`最近一次在${formatLastSeen(stats.lastSeen)}`);
+    return parts.join('，');
+};
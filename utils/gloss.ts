@@ -0,0 +1,55 @@
+import { WordEntry } from "../types";
+
+/**
+ * 释义规范化：将词条的中文释义 (常来自词典，如 "n. 预订；（常用于…）书籍") 整理为可在原文中直接匹配的释义集合
+ */
+
+// 词性前缀，如 n. / vt. / adj.
+const POS_REGEX = /(?:^|(?<=[\s；;，,、/]))(?:n|v|vt|vi|a|adj|ad|adv|prep|conj|pron|int|interj|num|art|aux|abbr|pl)\.\s*/gi;
+// 括号内的注释、领域标记与用法说明，如 （常用于…）、[医]、〈美〉
+const BRACKET_REGEX = /[（(【\[〔〈<][^（）()【】\[\]〔〕〈〉<>]*[）)】\]〕〉>]/g;
+const SEPARATOR_REGEX = /[,;，；/、\n]+/;
+// 中文之间的空白同样视为分隔 (如 "漂亮的  常用于否定句" 中释义与说明之间)
+const CJK_SPACE_REGEX = /(?<=[一-龥])\s+(?=[一-龥])/;
+const ELLIPSIS = '(?:…+|\\.{3,})';
+// "……的"、"使……" 等首尾带省略号的模板，去掉省略号部分
+const EDGE_ELLIPSIS_REGEX = new RegExp(`^${ELLIPSIS}的?|${ELLIPSIS}$`, 'g');
+const INNER_ELLIPSIS_REGEX = new RegExp(ELLIPSIS);
+// 无括号的用法说明，如 "常用于否定句"、"用作复数"
+const USAGE_NOTE_REGEX = /^(?:常|多|只|亦|也)?(?:用于|用作|用在|指|表示|后接|前接)/;
+const CJK_REGEX = /[一-龥]/;
+
+export const normalizeGlosses = (translation: string = ''): string[] => {
+    let text = translation;
+    // 括号可能嵌套，由内向外逐层去掉
+    let previous = '';
+    while (previous !== text) {
+        previous = text;
+        text = text.replace(BRACKET_REGEX, '');
+    }
+    text = text.replace(POS_REGEX, '');
+
+    const glosses = text.split(SEPARATOR_REGEX)
+        .flatMap(part => part.trim().split(CJK_SPACE_REGEX))
+        .map(part => part.trim().replace(EDGE_ELLIPSIS_REGEX, '').trim())
+        // 中间带省略号的 "对……感兴趣" 在原文中不会原样出现
+        .filter(part => part && !INNER_ELLIPSIS_REGEX.test(part) && !USAGE_NOTE_REGEX.test(part))
+        .filter(part => CJK_REGEX.test(part) && part !== '的');
+    return Array.from(new Set(glosses));
+};
+
+/**
+ * 词条用于匹配的释义：缓存生成于当前 translation 时直接使用 (含手动编辑结果)，否则重新规范化
+ */
+export const getEntryGlosses = (entry: WordEntry): string[] => {
+    if (entry.glosses && entry.glossSource === (entry.translation || '')) return entry.glosses;
+    return normalizeGlosses(entry.translation);
+};
+
+/**
+ * 将释义集合缓存到词条上；缓存仍然有效时返回原对象
+ */
+export const withGlosses = (entry: WordEntry): WordEntry => {
+    if (entry.glosses && entry.glossSource === (entry.translation || '')) return entry;
+    return { ...entry, glosses: normalizeGlosses(entry.translation), glossSource: entry.translation || '' };
+};
@@ -0,0 +1,41 @@
+/**
+ * IndexedDB 轻量封装
+ * 仅提供打开数据库与 Promise 化请求两个基础能力，供各类持久化缓存复用
+ */
+
+export const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> => {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+export const waitForTransaction = (tx: IDBTransaction): Promise<void> => {
+    return new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+};
+
+/**
+ * 打开 (必要时创建/升级) 数据库，同一数据库只会打开一次
+ */
+const dbPromises = new Map<string, Promise<IDBDatabase>>();
+
+export const openDatabase = (name: string, version: number, upgrade: (db: IDBDatabase) => void): Promise<IDBDatabase> => {
+    const existing = dbPromises.get(name);
+    if (existing) return existing;
+
+    const promise = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(name, version);
+        request.onupgradeneeded = () => upgrade(request.result);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+            dbPromises.delete(name);
+            reject(request.error);
+        };
+    });
+    dbPromises.set(name, promise);
+    return promise;
+};
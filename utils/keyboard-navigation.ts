@@ -0,0 +1,106 @@
+import { KeyboardAction, KeyboardShortcut, WordCategory } from "../types";
+import { querySelectorAllDeep } from "./dom-roots";
+
+/**
+ * 键盘导航：按阅读顺序在页面替换词之间移动焦点，并匹配配置的快捷键
+ */
+
+const TARGET_SELECTOR = '.context-lingo-target[data-entry-id]';
+const FOCUS_ATTR = 'data-lingo-focused';
+
+export const KEYBOARD_ACTION_LABELS: Record<KeyboardAction, string> = {
+    next: '下一个单词',
+    prev: '上一个单词',
+    toggleBubble: '打开/关闭气泡',
+    pronounce: '播放发音',
+    promote: '升级分类',
+    demote: '降级分类',
+};
+
+// 分类升降顺序：想学习 -> 正在学 -> 已掌握
+const CATEGORY_ORDER = [WordCategory.WantToLearnWord, WordCategory.LearningWord, WordCategory.KnownWord];
+
+export const shiftCategory = (category: WordCategory, direction: 1 | -1): WordCategory => {
+    const index = CATEGORY_ORDER.indexOf(category);
+    return CATEGORY_ORDER[Math.min(CATEGORY_ORDER.length - 1, Math.max(0, index + direction))];
+};
+
+/**
+ * 快捷键显示文本，如 "Alt + J"、"Alt + ↑"
+ */
+export const formatShortcut = (shortcut: KeyboardShortcut): string => {
+    const key = shortcut.code
+        .replace(/^Key/, '')
+        .replace(/^Digit/, '')
+        .replace('ArrowUp', '↑').replace('ArrowDown', '↓').replace('ArrowLeft', '←').replace('ArrowRight', '→');
+    return shortcut.modifier === 'None' ? key : `${shortcut.modifier === 'Meta' ? 'Cmd' : shortcut.modifier} + ${key}`;
+};
+
+/**
+ * 判断按键是否与快捷键一致：修饰键需完全匹配，避免 Alt+J 与 Ctrl+Alt+J 同时触发
+ */
+export const matchesShortcut = (e: KeyboardEvent, shortcut: KeyboardShortcut): boolean => {
+    if (e.code !== shortcut.code) return false;
+    const expected = { Alt: false, Ctrl: false, Shift: false, Meta: false };
+    if (shortcut.modifier !== 'None') expected[shortcut.modifier] = true;
+    return e.altKey === expected.Alt && e.ctrlKey === expected.Ctrl && e.shiftKey === expected.Shift && e.metaKey === expected.Meta;
+};
+
+/**
+ * 焦点位于输入框或可编辑区域时不响应快捷键
+ */
+export const isEditableTarget = (target: Element | null): boolean => {
+    if (!target) return false;
+    if (target.closest('input, textarea, select')) return true;
+    return !!(target as HTMLElement).isContentEditable;
+};
+
+const isVisible = (el: Element) => el.getClientRects().length > 0;
+
+/**
+ * 页面上可见的替换词，按文档顺序排列 (顶层文档在前，同源 iframe 随后)
+ */
+export const collectTargets = (): HTMLElement[] => querySelectorAllDeep(TARGET_SELECTOR).filter(isVisible) as HTMLElement[];
+
+/**
+ * 从当前焦点出发找到下一个/上一个替换词
+ * 没有焦点 (或焦点元素已被移除) 时从视口内第一个/最后一个开始
+ */
+export const findAdjacentTarget = (current: HTMLElement | null, direction: 1 | -1): HTMLElement | null => {
+    const targets = collectTargets();
+    if (targets.length === 0) return null;
+
+    const index = current ? targets.indexOf(current) : -1;
+    if (index !== -1) return targets[index + direction] || null;
+
+    const inView = targets.filter(el => {
+        const rect = el.getBoundingClientRect();
+        const view = el.ownerDocument.defaultView;
+        return rect.bottom > 0 && rect.top < (view?.innerHeight || window.innerHeight);
+    });
+    if (inView.length > 0) return direction === 1 ? inView[0] : inView[inView.length - 1];
+    return direction === 1 ? targets[0] : targets[targets.length - 1];
+};
+
+/**
+ * 显示焦点环，并在单词不在视口内时滚动到可见位置
+ */
+export const setTargetFocus = (el: HTMLElement) => {
+    el.setAttribute(FOCUS_ATTR, 'true');
+    el.style.outline = '2px solid #3b82f6';
+    el.style.outlineOffset = '2px';
+
+    const rect = el.getBoundingClientRect();
+    const view = el.ownerDocument.defaultView || window;
+    const margin = 60;
+    if (rect.top < margin || rect.bottom > view.innerHeight - margin) {
+        el.scrollIntoView({ block: 'center', behavior: 'smooth' });
+    }
+};
+
+export const clearTargetFocus = (el: HTMLElement) => {
+    if (!el.hasAttribute(FOCUS_ATTR)) return;
+    el.removeAttribute(FOCUS_ATTR);
+    el.style.outline = '';
+    el.style.outlineOffset = '';
+};
@@ -0,0 +1,49 @@
+import { LearningLanguage } from "../types";
+
+/**
+ * 学习语言配置：引擎语言代码、有道词典/发音参数、TTS 语音及分词特征
+ */
+export interface LanguageProfile {
+    code: LearningLanguage;
+    label: string;
+    nativeLabel: string;
+    youdaoLe?: string; // 有道词典语种参数，未设置表示有道不支持该语言
+    ttsLangs: { US: string; UK: string }; // 英语区分美/英音，其余语言两者相同
+    spaceDelimited: boolean; // 单词之间是否以空格分隔 (日语不以空格分词)
+    apostropheSplits: boolean; // 撇号是否分隔单词 (法语 l'école)
+}
+
+export const LANGUAGE_PROFILES: Record<LearningLanguage, LanguageProfile> = {
+    en: { code: 'en', label: '英语', nativeLabel: 'English', youdaoLe: 'en', ttsLangs: { US: 'en-US', UK: 'en-GB' }, spaceDelimited: true, apostropheSplits: false },
+    ja: { code: 'ja', label: '日语', nativeLabel: '日本語', youdaoLe: 'ja', ttsLangs: { US: 'ja-JP', UK: 'ja-JP' }, spaceDelimited: false, apostropheSplits: false },
+    ko: { code: 'ko', label: '韩语', nativeLabel: '한국어', youdaoLe: 'ko', ttsLangs: { US: 'ko-KR', UK: 'ko-KR' }, spaceDelimited: true, apostropheSplits: false },
+    fr: { code: 'fr', label: '法语', nativeLabel: 'Français', youdaoLe: 'fr', ttsLangs: { US: 'fr-FR', UK: 'fr-FR' }, spaceDelimited: true, apostropheSplits: true },
+    de: { code: 'de', label: '德语', nativeLabel: 'Deutsch', ttsLangs: { US: 'de-DE', UK: 'de-DE' }, spaceDelimited: true, apostropheSplits: false },
+    es: { code: 'es', label: '西班牙语', nativeLabel: 'Español', ttsLangs: { US: 'es-ES', UK: 'es-ES' }, spaceDelimited: true, apostropheSplits: false },
+};
+
+export const DEFAULT_LEARNING_LANGUAGE: LearningLanguage = 'en';
+
+export const getLanguageProfile = (code?: string): LanguageProfile => {
+    return LANGUAGE_PROFILES[code as LearningLanguage] || LANGUAGE_PROFILES[DEFAULT_LEARNING_LANGUAGE];
+};
+
+/**
+ * 词条所属语言：旧数据没有 language 字段，视为英语
+ */
+export const getEntryLanguage = (entry: { language?: LearningLanguage }): LearningLanguage => entry.language || DEFAULT_LEARNING_LANGUAGE;
+
+// 各引擎与通用代码不一致的语言代码
+const ENGINE_LANGUAGE_OVERRIDES: Record<string, Record<string, string>> = {
+    google: { zh: 'zh-CN' },
+    microsoft: { zh: 'zh-Hans' },
+    baidu: { ja: 'jp', ko: 'kor', fr: 'fra', es: 'spa' },
+};
+
+/**
+ * 将通用语言代码 (zh/en/ja...) 转换为引擎接口使用的代码
+ */
+export const getEngineLanguageCode = (engineId: string, code: string): string => {
+    const mapped = ENGINE_LANGUAGE_OVERRIDES[engineId]?.[code] || code;
+    return engineId === 'deepl' ? mapped.toUpperCase() : mapped;
+};
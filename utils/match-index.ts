@@ -0,0 +1,203 @@
+import { WordEntry, LearningLanguage } from "../types";
+import { AhoCorasick } from "./aho-corasick";
+import { getEntryGlosses } from "./gloss";
+import { normalizeLearningText } from "./text-processing";
+import { getLanguageProfile, getEntryLanguage } from "./languages";
+import { getEnglishInflections } from "./morphology";
+import { buildPhrasePattern, findPhraseMatches, PhrasePattern, PhraseMatch } from "./phrases";
+
+/**
+ * 词库匹配索引：所有词条的中文释义与外文词形各编译为一个 Aho-Corasick 自动机
+ * 每句话只需各扫描一遍，不再逐个词条 indexOf；词库变化时仅重新编译有改动的词条
+ * 开启词态匹配时，英语词条的词形包含按规则生成的变化形式 (booked, studies, went...)
+ * 短语词条另外编译正则，识别中间插入宾语的分离形式 (look it up, took the cost into account)
+ * 同一索引也用于英文页面标注：在英文原文中按整词查找词形
+ */
+
+interface IndexedEntry {
+    entry: WordEntry;
+    order: number; // 词库中的顺序，多个词条命中同一位置时靠前者优先
+    signature: string;
+    glosses: string[];
+    forms: string[];
+    phrase: PhrasePattern | null;
+}
+
+export interface GlossHit {
+    start: number;
+    end: number;
+    gloss: string;
+    entries: WordEntry[];
+}
+
+export interface FormHit {
+    start: number;
+    end: number;
+    form: string;
+    entries: WordEntry[]; // 以该词形为原形的词条排在前面
+}
+
+export interface PhraseHit extends PhraseMatch {
+    entry: WordEntry;
+}
+
+const getForms = (entry: WordEntry, matchInflections: boolean) => {
+    const generated = matchInflections && getEntryLanguage(entry) === 'en' ? getEnglishInflections(entry.text, entry.partOfSpeech) : [];
+    return Array.from(new Set([entry.text, ...(entry.inflections || []), ...generated].map(f => f.toLowerCase().trim()).filter(Boolean)));
+};
+
+// 影响索引内容的字段
+const getSignature = (entry: WordEntry) => [entry.text, entry.partOfSpeech, entry.language, (entry.inflections || []).join(','), getEntryGlosses(entry).join(',')].join('|');
+
+export class MatchIndex {
+    private glossAutomaton = new AhoCorasick<string>();
+    private formAutomaton = new AhoCorasick<string>();
+    private indexed = new Map<string, IndexedEntry>();
+    private phraseIds = new Set<string>();
+    private lastEntries: WordEntry[] | null = null;
+    private matchInflections: boolean;
+
+    constructor(entries: WordEntry[] = [], matchInflections: boolean = true) {
+        this.matchInflections = matchInflections;
+        this.sync(entries);
+    }
+
+    /**
+     * 切换词态匹配后重新编译全部词形
+     */
+    setMatchInflections(matchInflections: boolean) {
+        if (matchInflections === this.matchInflections) return;
+        this.matchInflections = matchInflections;
+        this.indexed.forEach(item => {
+            item.forms.forEach(f => this.formAutomaton.remove(f, item.entry.id));
+            item.forms = getForms(item.entry, matchInflections);
+            item.forms.forEach(f => this.formAutomaton.add(f, item.entry.id));
+            if (item.phrase) item.phrase = buildPhrasePattern(item.entry, matchInflections);
+        });
+    }
+
+    get size() {
+        return this.indexed.size;
+    }
+
+    /**
+     * 与词库同步：新增、删除及释义/词形有变化的词条重新编译，其余仅更新词条引用
+     */
+    sync(entries: WordEntry[]) {
+        if (entries === this.lastEntries) return;
+        this.lastEntries = entries;
+
+        const seen = new Set<string>();
+        entries.forEach((entry, order) => {
+            seen.add(entry.id);
+            const signature = getSignature(entry);
+            const current = this.indexed.get(entry.id);
+            if (current && current.signature === signature) {
+                current.entry = entry;
+                current.order = order;
+                return;
+            }
+            if (current) this.removeEntry(current);
+            const item: IndexedEntry = {
+                entry, order, signature,
+                glosses: getEntryGlosses(entry),
+                forms: getForms(entry, this.matchInflections),
+                phrase: buildPhrasePattern(entry, this.matchInflections)
+            };
+            item.glosses.forEach(g => this.glossAutomaton.add(g, entry.id));
+            item.forms.forEach(f => this.formAutomaton.add(f, entry.id));
+            if (item.phrase) this.phraseIds.add(entry.id);
+            this.indexed.set(entry.id, item);
+        });
+        Array.from(this.indexed.values()).forEach(item => {
+            if (!seen.has(item.entry.id)) this.removeEntry(item);
+        });
+    }
+
+    private removeEntry(item: IndexedEntry) {
+        item.glosses.forEach(g => this.glossAutomaton.remove(g, item.entry.id));
+        item.forms.forEach(f => this.formAutomaton.remove(f, item.entry.id));
+        this.phraseIds.delete(item.entry.id);
+        this.indexed.delete(item.entry.id);
+    }
+
+    private resolve(ids: string[], filter?: (entry: WordEntry) => boolean): WordEntry[] {
+        return ids
+            .map(id => this.indexed.get(id))
+            .filter((item): item is IndexedEntry => !!item && (!filter || filter(item.entry)))
+            .sort((a, b) => a.order - b.order)
+            .map(item => item.entry);
+    }
+
+    /**
+     * 中文文本中出现的所有释义 (可重叠)
+     */
+    searchGlosses(text: string, filter?: (entry: WordEntry) => boolean): GlossHit[] {
+        return this.glossAutomaton.search(text).flatMap(hit => {
+            const entries = this.resolve(hit.values, filter);
+            return entries.length > 0 ? [{ start: hit.start, end: hit.end, gloss: hit.pattern, entries }] : [];
+        });
+    }
+
+    /**
+     * 文本中按整词出现的单词词形 (不含短语词条，短语见 searchPhrases)
+     * 同一词形对应多个词条时，词条原形优先于其他词条的变化形式
+     */
+    searchForms(text: string, filter?: (entry: WordEntry) => boolean): FormHit[] {
+        const lower = text.toLowerCase().replace(/’/g, "'");
+        const isLetter = (i: number) => i >= 0 && i < lower.length && /\p{L}/u.test(lower[i]);
+        // 两侧都是字母的撇号属于单词内部 (don't 不命中 don)
+        const isWordChar = (i: number) => isLetter(i) || (lower[i] === "'" && isLetter(i - 1) && isLetter(i + 1));
+        return this.formAutomaton.search(lower).flatMap(hit => {
+            if (isWordChar(hit.start - 1) || isWordChar(hit.end)) return [];
+            const entries = this.resolve(hit.values.filter(id => !this.phraseIds.has(id)), filter);
+            if (entries.length === 0) return [];
+            const isBase = (entry: WordEntry) => entry.text.trim().toLowerCase() === hit.pattern;
+            entries.sort((a, b) => Number(isBase(b)) - Number(isBase(a)));
+            return [{ start: hit.start, end: hit.end, form: hit.pattern, entries }];
+        });
+    }
+
+    /**
+     * 文本中出现的短语词条 (首词可变形，动词短语允许插入宾语)，按词库顺序逐个词条列出
+     */
+    searchPhrases(text: string, filter?: (entry: WordEntry) => boolean): PhraseHit[] {
+        return this.resolve(Array.from(this.phraseIds), filter)
+            .flatMap(entry => findPhraseMatches(text, this.indexed.get(entry.id)!.phrase!).map(m => ({ ...m, entry })));
+    }
+
+    /**
+     * 译文中出现的词条及其实际形态 (每个词条取最长的形态)
+     * 以空格分词的语言按整词匹配，日语等按子串匹配
+     * 短语整体占用其覆盖的译文片段，片段内的单词不再计入其他词条 (took it into account 不再命中 take / account)
+     */
+    findFormsInText(translatedText: string, language: LearningLanguage, filter?: (entry: WordEntry) => boolean): Map<string, string> {
+        const profile = getLanguageProfile(language);
+        // 标准化只做逐字符替换，位置与原文一一对应；短语在原文上匹配，插入的词不跨越标点
+        const normalized = normalizeLearningText(translatedText, language).toLowerCase();
+        const isBoundary = (i: number) => i < 0 || i >= normalized.length || normalized[i] === ' ';
+        const found = new Map<string, string>();
+        const phraseFound = new Map<string, string>();
+        const phraseSpans: [number, number][] = [];
+
+        if (profile.spaceDelimited) {
+            this.searchPhrases(translatedText.toLowerCase(), filter).forEach(hit => {
+                if (!phraseFound.has(hit.entry.id)) phraseFound.set(hit.entry.id, hit.matchedWord);
+                phraseSpans.push([hit.start, hit.end]);
+            });
+        }
+        const insidePhrase = (start: number, end: number) => phraseSpans.some(([s, e]) => start >= s && end <= e);
+
+        this.formAutomaton.search(normalized).forEach(hit => {
+            if (profile.spaceDelimited && !(isBoundary(hit.start - 1) && isBoundary(hit.end))) return;
+            const claimed = phraseSpans.length > 0 && insidePhrase(hit.start, hit.end);
+            hit.values.forEach(id => {
+                if (claimed && !this.phraseIds.has(id)) return;
+                const current = found.get(id);
+                if (!current || hit.pattern.length > current.length) found.set(id, hit.pattern);
+            });
+        });
+        phraseFound.forEach((form, id) => found.set(id, form));
+        return found;
+    }
+}
@@ -1,5 +1,8 @@
-import { WordEntry, RichDictionaryResult } from "../types";
-import { normalizeEnglishText } from "./text-processing";
+import { WordEntry, RichDictionaryResult, LearningLanguage } from "../types";
+import { normalizeLearningText } from "./text-processing";
+import { getLanguageProfile } from "./languages";
+import { MatchIndex } from "./match-index";
+import { isPhraseText } from "./phrases";
 
 // 常见中文停用词/助词
 const CHINESE_STOP_WORDS = new Set(['的', '了', '和', '是', '在', '之', '与', '或', '等', '及', '其', '这', '那', '个']);
@@ -19,62 +22,91 @@ const calculateSimilarity = (segment: string, definition: string): number => {
     return (2.0 * intersectionCount) / (cleanSeg.length + cleanDef.length);
 };
 
+/**
+ * 创建译文词形检测函数
+ * 以空格分词的语言按整词匹配 (英语额外允许 -s/-es 词尾)，日语等不以空格分词的语言按子串匹配
+ */
+const createFormMatcher = (translatedText: string, language: LearningLanguage, allowSuffixes: boolean) => {
+    const profile = getLanguageProfile(language);
+    const normalized = normalizeLearningText(translatedText, language).toLowerCase();
+    if (!profile.spaceDelimited) return (form: string) => normalized.includes(form);
+    const padded = ` ${normalized} `; // 加空格方便全词匹配
+    const suffixes = allowSuffixes && profile.code === 'en' ? ['', 's', 'es'] : [''];
+    return (form: string) => suffixes.some(suffix => padded.includes(` ${form}${suffix} `));
+};
+
+export interface GlossMatchOptions {
+    minGlossLength?: number; // 短于该长度的释义不参与匹配
+    respectWordBoundaries?: boolean; // 释义首尾须落在分词边界上 (默认开启)
+}
+
+export interface GlossMatch {
+    text: string;
+    entry: WordEntry;
+    matchedWord: string;
+    index: number; // 在源文本中的起始位置
+}
+
+/**
+ * 中文分词边界集合：每个词的起点与终点
+ * 运行环境不支持 Intl.Segmenter 时返回 null，调用方退回子串匹配
+ */
+const getWordBoundaries = (text: string): Set<number> | null => {
+    const Segmenter = (Intl as any).Segmenter;
+    if (!Segmenter) return null;
+    const boundaries = new Set<number>([0, text.length]);
+    for (const s of new Segmenter('zh-CN', { granularity: 'word' }).segment(text)) {
+        boundaries.add(s.index);
+        boundaries.add(s.index + s.segment.length);
+    }
+    return boundaries;
+};
+
+export interface FuzzyMatchOptions extends GlossMatchOptions {
+    filter?: (entry: WordEntry) => boolean; // 只匹配满足条件的词条 (如当前学习语言、未在本站隐藏)
+}
+
 /**
  * 核心匹配逻辑：在中文源文本中寻找可以被替换的单词
- * 返回匹配的中文文本、对应的词条、以及在译文中实际出现的英文形态
+ * 释义须与分词结果对齐 (可跨多个词)，避免 "会" 命中 "会议"、"行" 命中 "银行"；
+ * 词条开启 allowSubstringMatch 时不检查边界
+ * 返回匹配的中文文本及位置、对应的词条、以及在译文中实际出现的英文形态
  */
 export const findFuzzyMatches = (
     sourceText: string, 
-    candidates: WordEntry[], 
-    translatedText: string = ""
-): { text: string, entry: WordEntry, matchedWord: string }[] => {
+    index: MatchIndex, 
+    translatedText: string = "",
+    language: LearningLanguage = 'en',
+    options: FuzzyMatchOptions = {}
+): GlossMatch[] => {
     
-    const matches: { text: string, entry: WordEntry, matchedWord: string, index: number }[] = [];
-    const normalizedTrans = ` ${normalizeEnglishText(translatedText).toLowerCase()} `; // 加空格方便全词匹配
-
-    // 1. 识别在译文中出现的英文词态
-    const validMatchesWithForm = candidates.map(entry => {
-        const baseWord = entry.text.toLowerCase();
-        const inflections = (entry.inflections || []).map(i => i.toLowerCase());
-        
-        // 合并原型和所有变体，按长度降序排列（防止 matches 匹配到 match）
-        const allForms = Array.from(new Set([baseWord, ...inflections])).sort((a, b) => b.length - a.length);
-        
-        // 寻找第一个出现在译文中的形式
-        const foundForm = allForms.find(form => normalizedTrans.includes(` ${form} `) || normalizedTrans.includes(` ${form}s `) || normalizedTrans.includes(` ${form}es `));
-
-        if (foundForm || !translatedText) {
-            return { entry, matchedWord: foundForm || entry.text };
-        }
-        return null;
-    }).filter((item): item is { entry: WordEntry, matchedWord: string } => item !== null);
-
-    // 2. 在中文原文中搜索这些词条对应的中文释义
-    validMatchesWithForm.forEach(({ entry, matchedWord }) => {
-        const definitions = entry.translation
-            ?.split(/[,;，；\s/]+/) 
-            .map(d => d.trim())
-            .filter(d => d.length > 0) || [];
-
-        definitions.forEach(def => {
-            let startIndex = 0;
-            let foundIndex = sourceText.indexOf(def, startIndex);
-            
-            while (foundIndex !== -1) {
-                matches.push({
-                    text: def,
-                    entry: entry,
-                    matchedWord: matchedWord,
-                    index: foundIndex
-                });
-                startIndex = foundIndex + 1; 
-                foundIndex = sourceText.indexOf(def, startIndex);
-            }
+    const matches: GlossMatch[] = [];
+    const minLength = Math.max(1, options.minGlossLength || 1);
+    let boundaries: Set<number> | null | undefined;
+    const getBoundaries = () => {
+        if (boundaries === undefined) boundaries = options.respectWordBoundaries === false ? null : getWordBoundaries(sourceText);
+        return boundaries;
+    };
+
+    // 1. 在中文原文中一次性找出所有释义
+    const hits = index.searchGlosses(sourceText, options.filter).filter(hit => hit.gloss.length >= minLength);
+    if (hits.length === 0) return [];
+
+    // 2. 识别在译文中出现的英文词态 (每个词条取最长的形态，防止 matches 匹配到 match)；无译文时不校验
+    const forms = translatedText ? index.findFormsInText(translatedText, language, options.filter) : null;
+
+    hits.forEach(hit => {
+        hit.entries.forEach(entry => {
+            const matchedWord = forms ? forms.get(entry.id) : entry.text;
+            if (!matchedWord) return;
+            const entryBoundaries = entry.allowSubstringMatch ? null : getBoundaries();
+            if (entryBoundaries && !(entryBoundaries.has(hit.start) && entryBoundaries.has(hit.end))) return;
+            matches.push({ text: hit.gloss, entry, matchedWord, index: hit.start });
         });
     });
 
-    // 3. 贪婪匹配去重
-    matches.sort((a, b) => b.text.length - a.text.length || a.index - b.index);
+    // 3. 贪婪匹配去重 (长释义优先；等长时短语词条优先，整体替换而不被拆给其中的单词)
+    matches.sort((a, b) => b.text.length - a.text.length || Number(isPhraseText(b.entry.text)) - Number(isPhraseText(a.entry.text)) || a.index - b.index);
 
     const finalResults: typeof matches = [];
     const occupiedRanges: [number, number][] = [];
@@ -90,7 +122,7 @@ export const findFuzzyMatches = (
         }
     }
 
-    return finalResults.map(r => ({ text: r.text, entry: r.entry, matchedWord: r.matchedWord }));
+    return finalResults.sort((a, b) => a.index - b.index);
 };
 
 /**
@@ -101,13 +133,14 @@ export const findAggressiveMatches = (
     sourceText: string,
     missedEntry: WordEntry,
     richData: RichDictionaryResult,
-    translatedText: string = ""
+    translatedText: string = "",
+    language: LearningLanguage = 'en'
 ): { text: string, entry: WordEntry, matchedWord: string }[] => {
     
-    // 首先确定英文形态
-    const normTrans = ` ${normalizeEnglishText(translatedText).toLowerCase()} `;
+    // 首先确定外文形态
+    const hasForm = createFormMatcher(translatedText, language, false);
     const allForms = Array.from(new Set([missedEntry.text.toLowerCase(), ...(missedEntry.inflections || []).map(i => i.toLowerCase())])).sort((a, b) => b.length - a.length);
-    const matchedWord = allForms.find(f => normTrans.includes(` ${f} `)) || missedEntry.text;
+    const matchedWord = allForms.find(hasForm) || missedEntry.text;
 
     const allDefinitions = new Set<string>();
     richData.meanings.forEach(m => {
@@ -149,4 +182,44 @@ export const findAggressiveMatches = (
     }
 
     return [];
-};
\ No newline at end of file
+};
+
+export interface GlossPrecisionReport {
+    text: string; // 去掉标注后的样本
+    expected: number; // 标注的应替换位置数
+    matched: number;
+    truePositives: number;
+    precision: number;
+    recall: number;
+    falsePositives: GlossMatch[];
+}
+
+/**
+ * 用标注样本评估释义匹配精度：样本中以 [[ ]] 标出应当被替换的释义，如 "会议后我[[会]]去[[银行]]"
+ * 不校验译文，仅衡量释义在原文中的定位是否准确
+ */
+export const evaluateGlossMatching = (markedText: string, index: MatchIndex, options: GlossMatchOptions = {}): GlossPrecisionReport => {
+    const expectedSpans = new Set<string>();
+    let text = '';
+    let cursor = 0;
+    for (const m of markedText.matchAll(/\[\[(.+?)\]\]/g)) {
+        text += markedText.slice(cursor, m.index);
+        expectedSpans.add(`${text.length}:${text.length + m[1].length}`);
+        text += m[1];
+        cursor = (m.index || 0) + m[0].length;
+    }
+    text += markedText.slice(cursor);
+
+    const matches = findFuzzyMatches(text, index, '', 'en', options);
+    const falsePositives = matches.filter(m => !expectedSpans.has(`${m.index}:${m.index + m.text.length}`));
+    const truePositives = matches.length - falsePositives.length;
+    return {
+        text,
+        expected: expectedSpans.size,
+        matched: matches.length,
+        truePositives,
+        precision: matches.length ? truePositives / matches.length : 1,
+        recall: expectedSpans.size ? truePositives / expectedSpans.size : 1,
+        falsePositives
+    };
+};
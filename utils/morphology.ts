@@ -0,0 +1,205 @@
+/**
+ * 英语词形变化：按规则生成复数/第三人称、过去式、进行时、比较级，并查不规则变化表
+ * 已知词性时只生成对应的变化 (动词不生成 -er，避免 sing -> singer 这类派生词误命中)；
+ * 词性未知时无法判断规则变化是否成立 (big -> bigs、happy -> happied)，只使用变化表中收录的形式
+ */
+
+export type WordClass = 'noun' | 'verb' | 'adj' | 'adv' | 'unknown';
+
+// 不规则动词：原形 -> [过去式, 过去分词]，多个形式以 / 分隔
+const IRREGULAR_VERBS: Record<string, [string, string]> = {
+    be: ['was/were', 'been'], have: ['had', 'had'], do: ['did', 'done'], go: ['went', 'gone'],
+    arise: ['arose', 'arisen'], awake: ['awoke', 'awoken'], bear: ['bore', 'borne/born'], beat: ['beat', 'beaten'],
+    become: ['became', 'become'], begin: ['began', 'begun'], bend: ['bent', 'bent'], bet: ['bet', 'bet'],
+    bind: ['bound', 'bound'], bite: ['bit', 'bitten'], bleed: ['bled', 'bled'], blow: ['blew', 'blown'],
+    break: ['broke', 'broken'], breed: ['bred', 'bred'], bring: ['brought', 'brought'], build: ['built', 'built'],
+    burn: ['burnt/burned', 'burnt/burned'], burst: ['burst', 'burst'], buy: ['bought', 'bought'], catch: ['caught', 'caught'],
+    choose: ['chose', 'chosen'], cling: ['clung', 'clung'], come: ['came', 'come'], cost: ['cost', 'cost'],
+    creep: ['crept', 'crept'], cut: ['cut', 'cut'], deal: ['dealt', 'dealt'], dig: ['dug', 'dug'],
+    draw: ['drew', 'drawn'], dream: ['dreamt/dreamed', 'dreamt/dreamed'], drink: ['drank', 'drunk'], drive: ['drove', 'driven'],
+    eat: ['ate', 'eaten'], fall: ['fell', 'fallen'], feed: ['fed', 'fed'], feel: ['felt', 'felt'],
+    fight: ['fought', 'fought'], find: ['found', 'found'], flee: ['fled', 'fled'], fly: ['flew', 'flown'],
+    forbid: ['forbade', 'forbidden'], forget: ['forgot', 'forgotten'], forgive: ['forgave', 'forgiven'], freeze: ['froze', 'frozen'],
+    get: ['got', 'got/gotten'], give: ['gave', 'given'], grind: ['ground', 'ground'], grow: ['grew', 'grown'],
+    hang: ['hung', 'hung'], hear: ['heard', 'heard'], hide: ['hid', 'hidden'], hit: ['hit', 'hit'],
+    hold: ['held', 'held'], hurt: ['hurt', 'hurt'], keep: ['kept', 'kept'], kneel: ['knelt', 'knelt'],
+    know: ['knew', 'known'], lay: ['laid', 'laid'], lead: ['led', 'led'], lean: ['leant/leaned', 'leant/leaned'],
+    leap: ['leapt/leaped', 'leapt/leaped'], learn: ['learnt/learned', 'learnt/learned'], leave: ['left', 'left'], lend: ['lent', 'lent'],
+    let: ['let', 'let'], lie: ['lay', 'lain'], light: ['lit', 'lit'], lose: ['lost', 'lost'],
+    make: ['made', 'made'], mean: ['meant', 'meant'], meet: ['met', 'met'], mistake: ['mistook', 'mistaken'],
+    overcome: ['overcame', 'overcome'], pay: ['paid', 'paid'], put: ['put', 'put'], quit: ['quit', 'quit'],
+    read: ['read', 'read'], ride: ['rode', 'ridden'], ring: ['rang', 'rung'], rise: ['rose', 'risen'],
+    run: ['ran', 'run'], say: ['said', 'said'], see: ['saw', 'seen'], seek: ['sought', 'sought'],
+    sell: ['sold', 'sold'], send: ['sent', 'sent'], set: ['set', 'set'], shake: ['shook', 'shaken'],
+    shine: ['shone', 'shone'], shoot: ['shot', 'shot'], show: ['showed', 'shown'], shrink: ['shrank', 'shrunk'],
+    shut: ['shut', 'shut'], sing: ['sang', 'sung'], sink: ['sank', 'sunk'], sit: ['sat', 'sat'],
+    sleep: ['slept', 'slept'], slide: ['slid', 'slid'], speak: ['spoke', 'spoken'], speed: ['sped', 'sped'],
+    spend: ['spent', 'spent'], spin: ['spun', 'spun'], spit: ['spat', 'spat'], split: ['split', 'split'],
+    spread: ['spread', 'spread'], spring: ['sprang', 'sprung'], stand: ['stood', 'stood'], steal: ['stole', 'stolen'],
+    stick: ['stuck', 'stuck'], sting: ['stung', 'stung'], stink: ['stank', 'stunk'], strike: ['struck', 'struck'],
+    swear: ['swore', 'sworn'], sweep: ['swept', 'swept'], swim: ['swam', 'swum'], swing: ['swung', 'swung'],
+    take: ['took', 'taken'], teach: ['taught', 'taught'], tear: ['tore', 'torn'], tell: ['told', 'told'],
+    think: ['thought', 'thought'], throw: ['threw', 'thrown'], understand: ['understood', 'understood'], undertake: ['undertook', 'undertaken'],
+    wake: ['woke', 'woken'], wear: ['wore', 'worn'], weep: ['wept', 'wept'], win: ['won', 'won'],
+    wind: ['wound', 'wound'], withdraw: ['withdrew', 'withdrawn'], write: ['wrote', 'written'],
+};
+
+// 不规则的第三人称单数
+const IRREGULAR_THIRD_PERSON: Record<string, string> = { be: 'is/am/are', have: 'has', do: 'does', go: 'goes' };
+
+// 不规则复数
+const IRREGULAR_PLURALS: Record<string, string> = {
+    man: 'men', woman: 'women', child: 'children', person: 'people', foot: 'feet', tooth: 'teeth',
+    goose: 'geese', mouse: 'mice', ox: 'oxen', louse: 'lice', die: 'dice',
+    knife: 'knives', wife: 'wives', life: 'lives', leaf: 'leaves', half: 'halves', wolf: 'wolves',
+    shelf: 'shelves', thief: 'thieves', loaf: 'loaves', calf: 'calves', self: 'selves',
+    analysis: 'analyses', crisis: 'crises', thesis: 'theses', hypothesis: 'hypotheses', basis: 'bases',
+    phenomenon: 'phenomena', criterion: 'criteria', datum: 'data', medium: 'media', curriculum: 'curricula',
+    cactus: 'cacti', fungus: 'fungi', nucleus: 'nuclei', stimulus: 'stimuli', appendix: 'appendices', index: 'indices/indexes',
+};
+
+// 不规则比较级/最高级
+const IRREGULAR_COMPARISONS: Record<string, [string, string]> = {
+    good: ['better', 'best'], well: ['better', 'best'], bad: ['worse', 'worst'], ill: ['worse', 'worst'],
+    far: ['farther/further', 'farthest/furthest'], little: ['less', 'least'], many: ['more', 'most'], much: ['more', 'most'],
+    old: ['older/elder', 'oldest/eldest'],
+};
+
+// 重音在末音节、需要双写末尾辅音的多音节词 (其余多音节词如 visit, open, happen, offer 不双写)
+const STRESSED_FINAL = new Set([
+    'begin', 'occur', 'incur', 'recur', 'concur', 'prefer', 'refer', 'confer', 'defer', 'infer', 'deter', 'transfer',
+    'admit', 'commit', 'permit', 'submit', 'omit', 'emit', 'remit', 'transmit', 'acquit', 'abhor',
+    'control', 'patrol', 'regret', 'forget', 'forbid', 'equip', 'upset', 'outrun', 'overrun', 'overlap',
+    'compel', 'expel', 'propel', 'excel', 'rebel', 'repel', 'dispel', 'kidnap',
+]);
+
+// 短语首词之后的小品词/介词，用于判断未标注词性的短语是否为动词短语 (look up, take into account)
+const PARTICLES = new Set([
+    'up', 'down', 'out', 'off', 'in', 'into', 'on', 'onto', 'over', 'away', 'back', 'through', 'about', 'around',
+    'along', 'across', 'for', 'with', 'to', 'at', 'after', 'by', 'apart', 'aside', 'forward', 'together', 'behind', 'from', 'of',
+]);
+
+// 不能作为动词短语首词的虚词 (in spite of, as well as)
+const FUNCTION_WORDS = new Set(['a', 'an', 'the', 'in', 'on', 'at', 'by', 'for', 'of', 'to', 'as', 'so', 'and', 'or', 'but', 'with', 'from', 'out', 'up', 'no', 'not', 'all']);
+
+const VOWELS = 'aeiou';
+const isConsonant = (ch: string) => /[a-z]/.test(ch) && !VOWELS.includes(ch);
+
+// qu 中的 u 不算元音 (quit -> quitting)
+const stripQu = (word: string) => word.replace(/qu/g, 'q');
+
+const isMonosyllable = (word: string) => (stripQu(word).replace(/^y/, '').match(/[aeiouy]+/g) || []).length === 1;
+
+/**
+ * 末尾 "辅音-元音-辅音" 且重读时双写末尾辅音 (stop -> stopped, begin -> beginning)
+ * 只对单音节词和重音在末音节的词双写；w/x/y 结尾及双元音 (rain, cook) 不双写
+ */
+const shouldDouble = (word: string) => {
+    const stem = stripQu(word);
+    if (stem.length < 3) return false;
+    const [a, b, c] = stem.slice(-3);
+    if (!(isConsonant(a) && VOWELS.includes(b) && isConsonant(c) && !'wxy'.includes(c))) return false;
+    return isMonosyllable(word) || STRESSED_FINAL.has(word);
+};
+
+/**
+ * 加元音开头的词尾 (-ed, -ing, -er, -est) 前的词干：双写辅音或 -ic 补 k (panic -> panicked)
+ */
+const suffixStem = (word: string) => {
+    if (shouldDouble(word)) return `${word}${word[word.length - 1]}`;
+    if (/[^aeiou]ic$/.test(word) && !isMonosyllable(word)) return `${word}k`;
+    return word;
+};
+
+export const getWordClass = (partOfSpeech?: string): WordClass => {
+    const pos = (partOfSpeech || '').toLowerCase();
+    if (/^(v|vt|vi|verb)\b/.test(pos)) return 'verb';
+    if (/^(n|noun|pl)\b/.test(pos)) return 'noun';
+    if (/^(a|adj|adjective)\b/.test(pos)) return 'adj';
+    if (/^(adv|ad|adverb)\b/.test(pos)) return 'adv';
+    return 'unknown';
+};
+
+const pluralize = (word: string): string[] => {
+    if (/(s|x|z|ch|sh)$/.test(word)) return [`${word}es`];
+    if (/[^aeiou]y$/.test(word)) return [`${word.slice(0, -1)}ies`];
+    if (/[^aeiou]o$/.test(word)) return [`${word}s`, `${word}es`]; // photo -> photos, potato -> potatoes
+    return [`${word}s`];
+};
+
+const thirdPerson = (word: string): string[] => IRREGULAR_THIRD_PERSON[word] ? [IRREGULAR_THIRD_PERSON[word]] : pluralize(word);
+
+const pastTense = (word: string): string[] => {
+    if (word.endsWith('e')) return [`${word}d`];
+    if (/[^aeiou]y$/.test(word)) return [`${word.slice(0, -1)}ied`];
+    return [`${suffixStem(word)}ed`];
+};
+
+const presentParticiple = (word: string): string[] => {
+    if (word.endsWith('ie')) return [`${word.slice(0, -2)}ying`]; // die -> dying
+    // 去 e 加 ing，但 ee/ye/oe 结尾保留 (see -> seeing, dye -> dyeing)
+    if (word.endsWith('e') && !/(ee|ye|oe)$/.test(word) && word.length > 2) return [`${word.slice(0, -1)}ing`];
+    return [`${suffixStem(word)}ing`];
+};
+
+const comparatives = (word: string): string[] => {
+    if (word.endsWith('e')) return [`${word}r`, `${word}st`];
+    if (/[^aeiou]y$/.test(word)) return [`${word.slice(0, -1)}ier`, `${word.slice(0, -1)}iest`];
+    const stem = shouldDouble(word) ? `${word}${word[word.length - 1]}` : word;
+    return [`${stem}er`, `${stem}est`];
+};
+
+const splitForms = (list: string[]) => list.flatMap(f => f.split('/'));
+
+const inflectWord = (word: string, wordClass: WordClass): string[] => {
+    const forms: string[] = [];
+    const irregularVerb = IRREGULAR_VERBS[word];
+
+    switch (wordClass) {
+        case 'verb':
+            forms.push(...thirdPerson(word), ...(irregularVerb || pastTense(word)), ...presentParticiple(word));
+            break;
+        case 'noun':
+            forms.push(...(IRREGULAR_PLURALS[word] ? [IRREGULAR_PLURALS[word]] : pluralize(word)));
+            break;
+        case 'adj':
+            forms.push(...(IRREGULAR_COMPARISONS[word] || comparatives(word)));
+            break;
+        case 'adv':
+            // 规则比较级只适用于少数副词 (fast, hard)，无法区分，只用变化表
+            if (IRREGULAR_COMPARISONS[word]) forms.push(...IRREGULAR_COMPARISONS[word]);
+            break;
+        default:
+            // 词性未知：只有收录在变化表中的词才能确定其变化形式
+            if (irregularVerb) forms.push(...thirdPerson(word), ...irregularVerb, ...presentParticiple(word));
+            if (IRREGULAR_COMPARISONS[word]) forms.push(...IRREGULAR_COMPARISONS[word]);
+    }
+    return splitForms(forms);
+};
+
+/**
+ * 未标注词性的短语：首词为动词或其后紧跟小品词时按动词短语变化 (look up, take into account)
+ */
+const isVerbPhrase = (head: string, rest: string[]) => !!IRREGULAR_VERBS[head] || (!FUNCTION_WORDS.has(head) && PARTICLES.has(rest[0]));
+
+const cache = new Map<string, string[]>();
+
+/**
+ * 生成英文单词的全部变化形式 (不含原形，均为小写)
+ * 短语只变化第一个词 (look up -> looked up, looking up)
+ */
+export const getEnglishInflections = (text: string, partOfSpeech?: string): string[] => {
+    const normalized = text.trim().toLowerCase().replace(/\s+/g, ' ');
+    if (!/^[a-z][a-z' -]*$/.test(normalized)) return [];
+    const key = `${normalized}|${partOfSpeech || ''}`;
+    const cached = cache.get(key);
+    if (cached) return cached;
+
+    const [head, ...rest] = normalized.split(' ');
+    const tail = rest.length > 0 ? ` ${rest.join(' ')}` : '';
+    const posClass = getWordClass(partOfSpeech);
+    const wordClass = rest.length > 0 && posClass === 'unknown' && isVerbPhrase(head, rest) ? 'verb' : posClass;
+    const forms = Array.from(new Set(inflectWord(head, wordClass).map(f => `${f}${tail}`))).filter(f => f !== normalized);
+    cache.set(key, forms);
+    return forms;
+};
@@ -0,0 +1,75 @@
+import { WordEntry } from "../types";
+import { getEntryLanguage } from "./languages";
+import { getEnglishInflections, getWordClass } from "./morphology";
+
+/**
+ * 多词词条 (短语、短语动词) 匹配
+ * 首词可带词态变化；动词短语的首词与其余部分之间允许插入少量词作宾语 (look it up, took the cost into account)
+ * 插入的词不跨越标点，避免把分属两个分句的词拼成一个短语
+ */
+
+export const MAX_PHRASE_GAP = 3;
+
+export interface PhrasePattern {
+    regex: RegExp;
+    rest: string; // 首词之后的部分 (小写)
+    last: string; // 末词，用于快速排除
+}
+
+export interface PhraseMatch {
+    start: number;
+    end: number;
+    text: string; // 原文中的完整片段 (含插入的词)
+    matchedWord: string; // 首词实际形态 + 其余部分，如 "took into account"
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// 插入词：不含空白与标点的连续字符
+const GAP_WORD = `[^\\s.,;:!?"()\\[\\]，。；：！？、“”（）]+`;
+
+export const isPhraseText = (text: string) => /\s/.test(text.trim());
+
+/**
+ * 编译短语词条的匹配模式，单词词条返回 null
+ * 只有动词短语或词性未填写的短语允许插入 (in spite of 不应匹配 in the spite of)
+ */
+export const buildPhrasePattern = (entry: WordEntry, matchInflections: boolean): PhrasePattern | null => {
+    const words = entry.text.trim().toLowerCase().split(/\s+/);
+    if (words.length < 2) return null;
+    const [head, ...restWords] = words;
+    const rest = restWords.join(' ');
+
+    const heads = new Set([head]);
+    if (matchInflections && getEntryLanguage(entry) === 'en') {
+        getEnglishInflections(entry.text, entry.partOfSpeech).forEach(form => heads.add(form.split(' ')[0]));
+    }
+    // 词库中手动填写的短语变形 (如 "took into account")
+    (entry.inflections || []).forEach(form => {
+        const [formHead, ...formRest] = form.trim().toLowerCase().split(/\s+/);
+        if (formHead && formRest.join(' ') === rest) heads.add(formHead);
+    });
+
+    const gap = !entry.partOfSpeech?.trim() || getWordClass(entry.partOfSpeech) === 'verb' ? MAX_PHRASE_GAP : 0;
+    const headPattern = Array.from(heads).sort((a, b) => b.length - a.length).map(escapeRegExp).join('|');
+    const restPattern = restWords.map(escapeRegExp).join('\\s+');
+    return {
+        regex: new RegExp(`(?<![\\p{L}\\p{N}])(${headPattern})(?:\\s+${GAP_WORD}){0,${gap}}?\\s+${restPattern}(?![\\p{L}\\p{N}])`, 'giu'),
+        rest,
+        last: restWords[restWords.length - 1]
+    };
+};
+
+/**
+ * 在文本中查找短语的所有出现位置 (插入词尽量少)
+ */
+export const findPhraseMatches = (text: string, pattern: PhrasePattern): PhraseMatch[] => {
+    if (!text.toLowerCase().includes(pattern.last)) return [];
+    const matches: PhraseMatch[] = [];
+    pattern.regex.lastIndex = 0;
+    let m: RegExpExecArray | null;
+    while ((m = pattern.regex.exec(text)) !== null) {
+        matches.push({ start: m.index, end: m.index + m[0].length, text: m[0], matchedWord: `${m[1].toLowerCase()} ${pattern.rest}` });
+    }
+    return matches;
+};
@@ -0,0 +1,143 @@
+import { LearningLanguage } from "../types";
+import { splitTextIntoSentences } from "./text-processing";
+import { getSubtitleTimestamp } from "./subtitles";
+
+/**
+ * 划词上下文：选中的单词及其所在句子、段落 (外文) 与对应中文
+ */
+export interface SelectionContext {
+    text: string;
+    sentence: string;
+    paragraph: string;
+    sentenceTranslation?: string;
+    paragraphTranslation?: string;
+    sourceUrl: string;
+    sourceTimestamp?: number; // 位于视频字幕中时的播放时间 (秒)
+}
+
+/**
+ * 已翻译文本块的逐句原文与译文
+ */
+export interface BlockSentences {
+    sentences: string[];
+    translations: string[];
+}
+
+const BLOCK_SELECTOR = 'p, li, blockquote, h1, h2, h3, h4, h5, h6, td, th, dd, dt, figcaption, article, section, div';
+const MAX_LOOKUP_WORDS = 4;
+const MAX_LOOKUP_LENGTH = 40;
+
+const collapseWhitespace = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+/**
+ * 判断选中的文本是否适合查词：单行、不超过 4 个词，且不是中文 (日语允许汉字)
+ */
+export const isLookupCandidate = (text: string, language: LearningLanguage = 'en'): boolean => {
+    const trimmed = text.trim();
+    if (!trimmed || trimmed.length > MAX_LOOKUP_LENGTH || /[\r\n]/.test(trimmed)) return false;
+    if (language !== 'ja' && /[\u4e00-\u9fa5]/.test(trimmed)) return false;
+    return trimmed.split(/\s+/).length <= MAX_LOOKUP_WORDS && /\p{L}/u.test(trimmed);
+};
+
+/**
+ * 目标节点在文本块原文中的位置：已替换的单词按其原文 (data-lingo-original) 长度计算
+ * target 为文本节点时 targetOffset 为其中的字符偏移，为元素时取元素内第一个文本节点的位置
+ */
+const getSourceOffset = (block: Element, target: Node, targetOffset: number = 0): number => {
+    const walker = block.ownerDocument.createTreeWalker(block, NodeFilter.SHOW_TEXT);
+    let offset = 0;
+    let countedWrapper: Element | null = null;
+    let node: Node | null;
+    while ((node = walker.nextNode())) {
+        const wrapper = node.parentElement?.closest('.context-lingo-word') || null;
+        if (node === target || target.contains(node)) return wrapper || node !== target ? offset : offset + targetOffset;
+        if (wrapper) {
+            if (wrapper !== countedWrapper) {
+                offset += (wrapper.getAttribute('data-lingo-original') || '').length;
+                countedWrapper = wrapper;
+            }
+        } else {
+            offset += node.nodeValue?.length || 0;
+        }
+    }
+    return offset;
+};
+
+/**
+ * 找到原文偏移所在的句子下标
+ */
+const locateSentence = (text: string, sentences: string[], offset: number): number => {
+    let cursor = 0;
+    let index = 0;
+    sentences.forEach((sentence, i) => {
+        const start = text.indexOf(sentence, cursor);
+        if (start === -1) return;
+        cursor = start + sentence.length;
+        if (offset >= start) index = i;
+    });
+    return index;
+};
+
+/**
+ * 采集节点所在句子与段落
+ * 已翻译的中文段落：句子/段落取外文译文，中文原文作为其翻译；
+ * 外文段落：句子/段落取原文，翻译留空由调用方补全
+ */
+const captureContext = (text: string, target: Node, targetOffset: number, getBlockSentences?: (block: Element) => BlockSentences | undefined): SelectionContext => {
+    const sourceUrl = window.location.href;
+    const targetEl = target.nodeType === Node.ELEMENT_NODE ? target as Element : target.parentElement;
+    const sourceTimestamp = targetEl ? getSubtitleTimestamp(targetEl) : undefined;
+    const block = targetEl?.closest('[data-lingo-source]') || targetEl?.closest(BLOCK_SELECTOR);
+    if (!block) return { text, sentence: '', paragraph: '', sourceUrl, sourceTimestamp };
+
+    const source = block.getAttribute('data-lingo-source');
+    const offset = getSourceOffset(block, target, targetOffset);
+    const translated = getBlockSentences?.(block);
+    if (source && translated) {
+        const index = locateSentence(source, translated.sentences, offset);
+        return {
+            text,
+            sentence: collapseWhitespace(translated.translations[index] || ''),
+            sentenceTranslation: collapseWhitespace(translated.sentences[index] || ''),
+            paragraph: collapseWhitespace(translated.translations.join(' ')),
+            paragraphTranslation: collapseWhitespace(source),
+            sourceUrl,
+            sourceTimestamp
+        };
+    }
+
+    // 标注模式的文本块中夹有中文释义，以记录的原文为准
+    const paragraph = source || block.textContent || '';
+    const sentences = splitTextIntoSentences(paragraph);
+    const sentence = sentences[locateSentence(paragraph, sentences, offset)] || '';
+    return { text, sentence: collapseWhitespace(sentence), paragraph: collapseWhitespace(paragraph), sourceUrl, sourceTimestamp };
+};
+
+/**
+ * 从选区采集上下文
+ */
+export const captureSelectionContext = (range: Range, getBlockSentences?: (block: Element) => BlockSentences | undefined): SelectionContext => {
+    const start = range.startContainer;
+    // 选区起点落在元素上时，startOffset 指向其子节点
+    const target = start.nodeType === Node.TEXT_NODE ? start : start.childNodes[range.startOffset] || start;
+    return captureContext(collapseWhitespace(range.toString()), target, start === target ? range.startOffset : 0, getBlockSentences);
+};
+
+/**
+ * 从页面上的替换词元素采集上下文
+ */
+export const captureElementContext = (el: Element, text: string, getBlockSentences?: (block: Element) => BlockSentences | undefined): SelectionContext => {
+    return captureContext(text, el, 0, getBlockSentences);
+};
+
+/**
+ * 生成中英混合例句：将中文句子中的释义替换为 "外文单词 (释义)"，如 "我需要 book (预订) 一张机票。"
+ */
+export const buildMixedSentence = (chineseSentence: string | undefined, chinesePart: string, word: string): string | undefined => {
+    if (!chineseSentence || !chinesePart || !word || !chineseSentence.includes(chinesePart)) return undefined;
+    return chineseSentence
+        .replace(chinesePart, ` ${word} (${chinesePart}) `)
+        .replace(/\s+/g, ' ')
+        .replace(/\s+([，。！？；：、）」”])/g, '$1')
+        .trim();
+};
@@ -0,0 +1,40 @@
+/**
+ * 原文与译文的逐句对齐
+ * 合并请求时以换行分隔句子：相比自定义分隔符，各引擎更少丢弃、合并或翻译换行
+ */
+
+export const SENTENCE_SEPARATOR = '\n';
+
+// 译文/原文长度比偏离中位数超过该倍数时，认为句子发生了错位
+const MAX_RATIO_DEVIATION = 3;
+// 过短的句子 (如 "是的。") 长度比波动很大，不参与比例检查
+const MIN_RATIO_CHECK_LENGTH = 6;
+
+export interface SentenceTranslationResult {
+    translations: string[];
+    aligned: boolean[]; // 每句译文是否可信地对应原句
+}
+
+export const joinSentences = (sentences: string[]): string => sentences.map(s => s.replace(/\s*\n+\s*/g, ' ')).join(SENTENCE_SEPARATOR);
+
+export const splitJoinedTranslation = (text: string): string[] => text.split(/\s*\n+\s*/).map(s => s.trim()).filter(Boolean);
+
+/**
+ * 检查逐句译文是否可信：数量必须一致，且各句长度比不能明显偏离整体水平
+ * (引擎合并一句又拆开另一句时，数量可能恰好一致，但长度比会出现异常)
+ */
+export const isAlignmentPlausible = (sources: string[], translations: string[]): boolean => {
+    if (sources.length !== translations.length) return false;
+    if (translations.some(t => !t.trim())) return false;
+    if (sources.length < 2) return true;
+
+    const ratios = sources.map((s, i) => translations[i].length / Math.max(1, s.trim().length));
+    const sorted = [...ratios].sort((a, b) => a - b);
+    const median = sorted[Math.floor(sorted.length / 2)];
+    if (median <= 0) return false;
+
+    return ratios.every((ratio, i) => {
+        if (sources[i].trim().length < MIN_RATIO_CHECK_LENGTH) return true;
+        return ratio <= median * MAX_RATIO_DEVIATION && ratio >= median / MAX_RATIO_DEVIATION;
+    });
+};
@@ -0,0 +1,105 @@
+import { AutoTranslateConfig, SiteProfile, StyleConfig, WordCategory } from "../types";
+
+const escapeRegExp = (text: string) => text.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * 判断 URL 是否匹配站点规则
+ * 规则格式：域名 (zhihu.com，同时匹配子域名)、通配域名 (*.zhihu.com) 或带路径的通配规则 (zhihu.com/question/*)
+ */
+export const matchSitePattern = (pattern: string, url: { hostname: string; pathname: string }): boolean => {
+    const cleaned = pattern.trim().replace(/^[a-z]+:\/\//i, '').toLowerCase();
+    if (!cleaned) return false;
+
+    const slashIdx = cleaned.indexOf('/');
+    const hostPattern = slashIdx === -1 ? cleaned : cleaned.substring(0, slashIdx);
+    const pathPattern = slashIdx === -1 ? '' : cleaned.substring(slashIdx);
+    const hostname = url.hostname.toLowerCase();
+
+    let hostMatched: boolean;
+    if (hostPattern.includes('*')) {
+        const bare = hostPattern.replace(/^\*\./, '');
+        const regex = new RegExp(`^${hostPattern.split('*').map(escapeRegExp).join('[^/]*')}$`);
+        hostMatched = regex.test(hostname) || hostname === bare;
+    } else {
+        hostMatched = hostname === hostPattern || hostname.endsWith(`.${hostPattern}`);
+    }
+    if (!hostMatched) return false;
+    if (!pathPattern) return true;
+
+    // 路径规则默认按前缀匹配，* 匹配任意字符
+    const pathRegex = new RegExp(`^${pathPattern.split('*').map(escapeRegExp).join('.*')}`);
+    return pathRegex.test(url.pathname.toLowerCase());
+};
+
+/**
+ * 查找当前页面命中的站点配置，多个命中时取规则最长 (最具体) 的一条
+ */
+export const findSiteProfile = (profiles: SiteProfile[] | undefined, url: { hostname: string; pathname: string }): SiteProfile | undefined => {
+    if (!Array.isArray(profiles)) return undefined;
+    return profiles
+        .filter(p => p.pattern && matchSitePattern(p.pattern, url))
+        .sort((a, b) => b.pattern.length - a.pattern.length)[0];
+};
+
+/**
+ * 词条是否在当前网站被隐藏 (气泡中选择 "本站隐藏")
+ */
+export const isEntryHiddenOnSite = (entry: { hiddenSites?: string[] }, url: { hostname: string; pathname: string }): boolean => {
+    return Array.isArray(entry.hiddenSites) && entry.hiddenSites.some(site => matchSitePattern(site, url));
+};
+
+export interface ResolvedSiteSettings {
+    shouldTranslate: boolean; // 是否自动开始翻译
+    isBlocked: boolean; // 命中黑名单，完全不运行
+    config: AutoTranslateConfig;
+    styles: Record<WordCategory, StyleConfig>;
+    engineId?: string;
+    profile?: SiteProfile;
+}
+
+/**
+ * 将全局配置与站点配置合并，得到当前页面实际生效的设置
+ */
+export const resolveSiteSettings = (
+    config: AutoTranslateConfig,
+    styles: Record<WordCategory, StyleConfig>,
+    url: { hostname: string; pathname: string }
+): ResolvedSiteSettings => {
+    const blacklist = Array.isArray(config.blacklist) ? config.blacklist : [];
+    const whitelist = Array.isArray(config.whitelist) ? config.whitelist : [];
+    const isBlocked = blacklist.some(d => url.hostname.includes(d));
+    const isWhitelisted = whitelist.some(d => matchSitePattern(d, url));
+    const profile = findSiteProfile(config.siteProfiles, url);
+
+    const effectiveConfig: AutoTranslateConfig = {
+        ...config,
+        translateWholePage: profile?.translateWholePage ?? config.translateWholePage,
+        bilingualMode: profile?.bilingualMode ?? config.bilingualMode,
+        aggressiveMode: profile?.aggressiveMode ?? config.aggressiveMode,
+    };
+
+    const effectiveStyles = { ...styles };
+    if (profile?.density) {
+        (Object.keys(profile.density) as WordCategory[]).forEach(cat => {
+            const override = profile.density?.[cat];
+            if (override && effectiveStyles[cat]) {
+                effectiveStyles[cat] = { ...effectiveStyles[cat], densityMode: override.densityMode, densityValue: override.densityValue };
+            }
+        });
+    }
+
+    // 优先级：站点配置的开关 > 全局开关；白名单不会绕过全局开关，仅在仅白名单模式下决定哪些网站可以翻译 (站点配置也视为已列出)
+    let shouldTranslate: boolean;
+    if (profile?.enabled !== undefined) shouldTranslate = profile.enabled;
+    else if (config.whitelistOnly) shouldTranslate = config.enabled && (isWhitelisted || !!profile);
+    else shouldTranslate = config.enabled;
+
+    return {
+        shouldTranslate: !isBlocked && shouldTranslate,
+        isBlocked,
+        config: effectiveConfig,
+        styles: effectiveStyles,
+        engineId: profile?.engineId,
+        profile
+    };
+};
@@ -0,0 +1,134 @@
+/**
+ * 视频字幕：识别播放器以 DOM 渲染的字幕行，为原生 <track> 字幕渲染可替换的字幕层，并生成带时间点的视频链接
+ */
+
+// 各播放器的字幕行 (每个元素为一行字幕文本)
+const SUBTITLE_LINE_SELECTORS = [
+    '.ytp-caption-segment', // YouTube
+    '.bpx-player-subtitle-panel-text', // Bilibili 新版播放器
+    '.bili-subtitle-x-subtitle-panel-text', // Bilibili 番剧/课程播放器
+    '.subtitle-item-text', // Bilibili 旧版播放器
+    '[data-context-lingo-subtitle]', // 插件为 <track> 字幕渲染的字幕行
+];
+
+// 播放器容器：字幕模式下由字幕逻辑单独处理，正文扫描需跳过
+const PLAYER_SELECTORS = [
+    '.html5-video-player',
+    '.bpx-player-container',
+    '#bilibili-player',
+    '[data-context-lingo-subtitle-layer]',
+];
+
+export const SUBTITLE_SELECTOR = SUBTITLE_LINE_SELECTORS.join(', ');
+export const PLAYER_SELECTOR = PLAYER_SELECTORS.join(', ');
+
+// 向上查找视频元素的最大层级
+const MAX_VIDEO_SEARCH_DEPTH = 12;
+
+/**
+ * 找到字幕元素所属的视频：逐级向上，在祖先元素中查找 video
+ */
+export const findVideoForElement = (el: Element): HTMLVideoElement | null => {
+    let current: Element | null = el;
+    for (let depth = 0; current && depth < MAX_VIDEO_SEARCH_DEPTH; depth++) {
+        if (current.tagName === 'VIDEO') return current as HTMLVideoElement;
+        const video = current.querySelector('video');
+        if (video) return video;
+        current = current.parentElement;
+    }
+    // 播放器结构无法识别时，退回页面上正在播放或唯一的视频
+    const videos = Array.from(el.ownerDocument.querySelectorAll('video'));
+    return videos.find(v => !v.paused) || (videos.length === 1 ? videos[0] : null);
+};
+
+/**
+ * 元素位于字幕中时返回所属视频的当前播放时间 (秒)
+ */
+export const getSubtitleTimestamp = (el: Element): number | undefined => {
+    if (!el.closest(SUBTITLE_SELECTOR)) return undefined;
+    const video = findVideoForElement(el);
+    return video ? Math.floor(video.currentTime) : undefined;
+};
+
+/**
+ * 生成跳转到指定时间点的视频链接
+ * YouTube 与 Bilibili 使用 t 参数，其他页面使用媒体片段 (#t=秒)
+ */
+export const buildTimestampUrl = (url: string, seconds?: number): string => {
+    if (seconds === undefined || seconds === null) return url;
+    try {
+        const parsed = new URL(url);
+        const host = parsed.hostname;
+        if (/(^|\.)youtube\.com$|(^|\.)youtu\.be$/.test(host)) {
+            parsed.searchParams.set('t', `${seconds}s`);
+            return parsed.toString();
+        }
+        if (/(^|\.)bilibili\.com$/.test(host)) {
+            parsed.searchParams.set('t', String(seconds));
+            return parsed.toString();
+        }
+        parsed.hash = `t=${seconds}`;
+        return parsed.toString();
+    } catch {
+        return url;
+    }
+};
+
+/**
+ * 秒数格式化为 m:ss 或 h:mm:ss
+ */
+export const formatTimestamp = (seconds: number): string => {
+    const h = Math.floor(seconds / 3600);
+    const m = Math.floor((seconds % 3600) / 60);
+    const s = Math.floor(seconds % 60);
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return h > 0 ? `${h}:${pad(m)}:${pad(s)}` : `${m}:${pad(s)}`;
+};
+
+/**
+ * 原生 <track> 字幕由浏览器绘制，无法修改。
+ * 将其切换为 hidden (仍会触发 cuechange)，并在视频上方渲染同样内容的 DOM 字幕行
+ * 返回停止渲染并恢复原生字幕的函数
+ */
+export const renderTrackSubtitles = (video: HTMLVideoElement): (() => void) => {
+    const doc = video.ownerDocument;
+    const tracks = Array.from(video.textTracks).filter(t => (t.kind === 'subtitles' || t.kind === 'captions') && t.mode === 'showing');
+    if (tracks.length === 0) return () => {};
+
+    const layer = doc.createElement('div');
+    layer.setAttribute('data-context-lingo-subtitle-layer', 'true');
+    Object.assign(layer.style, { position: 'absolute', display: 'flex', flexDirection: 'column', justifyContent: 'flex-end', alignItems: 'center', pointerEvents: 'none', zIndex: '2147483646', paddingBottom: '6%', boxSizing: 'border-box' });
+    video.after(layer);
+
+    // 字幕层与视频在同一定位上下文中，按视频的偏移对齐
+    const syncLayout = () => {
+        Object.assign(layer.style, { left: `${video.offsetLeft}px`, top: `${video.offsetTop}px`, width: `${video.offsetWidth}px`, height: `${video.offsetHeight}px` });
+    };
+
+    const render = () => {
+        syncLayout();
+        const lines = tracks.flatMap(t => Array.from(t.activeCues || []).map(cue => (cue as VTTCue).text || ''));
+        layer.replaceChildren(...lines.filter(Boolean).map(text => {
+            const line = doc.createElement('div');
+            line.setAttribute('data-context-lingo-subtitle', 'true');
+            // VTT 文本可能包含 <i>、<b> 等标签，只保留纯文本
+            line.textContent = text.replace(/<[^>]+>/g, '');
+            Object.assign(line.style, { pointerEvents: 'auto', background: 'rgba(0, 0, 0, 0.75)', color: '#fff', fontSize: '18px', lineHeight: '1.4', padding: '2px 8px', marginTop: '4px', borderRadius: '2px', whiteSpace: 'pre-line', textAlign: 'center' });
+            return line;
+        }));
+    };
+
+    tracks.forEach(t => {
+        t.mode = 'hidden';
+        t.addEventListener('cuechange', render);
+    });
+    render();
+
+    return () => {
+        tracks.forEach(t => {
+            t.removeEventListener('cuechange', render);
+            t.mode = 'showing';
+        });
+        layer.remove();
+    };
+};
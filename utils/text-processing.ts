@@ -1,3 +1,6 @@
+import { LearningLanguage } from "../types";
+import { getLanguageProfile } from "./languages";
+
 
 /**
  * 将文本拆分为句子数组
@@ -32,3 +35,13 @@ export const splitTextIntoSentences = (text: string): string[] => {
 export const normalizeEnglishText = (text: string): string => {
     return text.toLowerCase().replace(/[.,/#!$%^&*;:{}=\-_`~()]/g, " ");
 };
+
+/**
+ * 按学习语言标准化译文以便匹配
+ * 在英文规则基础上移除全角标点；法语等撇号分词的语言将撇号视为分隔符 (l'école -> l école)
+ */
+export const normalizeLearningText = (text: string, language?: LearningLanguage): string => {
+    const profile = getLanguageProfile(language);
+    const normalized = normalizeEnglishText(text).replace(/[。、，！？；：「」『』（）・…]/g, " ");
+    return profile.apostropheSplits ? normalized.replace(/['’]/g, " ") : normalized;
+};
@@ -0,0 +1,103 @@
+import { openDatabase, promisifyRequest, waitForTransaction } from './idb';
+
+/**
+ * 段落翻译持久化缓存 (IndexedDB，运行于 Background)
+ * 键 = 引擎 ID + 目标语言 + 规范化后的原文，按最近访问时间做 LRU 淘汰
+ */
+
+const DB_NAME = 'context-lingo-translation-cache';
+const STORE = 'translations';
+export const TRANSLATION_CACHE_MAX_ENTRIES = 5000;
+
+interface TranslationCacheRecord {
+    key: string;
+    engineId: string;
+    target: string;
+    source: string;
+    translation: string;
+    createdAt: number;
+    lastAccess: number;
+}
+
+export interface TranslationCacheStats {
+    count: number;
+    maxEntries: number;
+}
+
+const getDb = () => openDatabase(DB_NAME, 1, db => {
+    if (!db.objectStoreNames.contains(STORE)) {
+        const store = db.createObjectStore(STORE, { keyPath: 'key' });
+        store.createIndex('lastAccess', 'lastAccess');
+    }
+});
+
+/**
+ * 规范化原文：去除首尾空白并合并连续空白，避免排版差异导致缓存失效
+ */
+export const normalizeSourceText = (text: string): string => text.replace(/\s+/g, ' ').trim();
+
+const buildKey = (engineId: string, target: string, text: string) => `${engineId}|${target}|${normalizeSourceText(text)}`;
+
+export const getCachedTranslation = async (engineId: string, target: string, text: string): Promise<string | null> => {
+    const db = await getDb();
+    const tx = db.transaction(STORE, 'readwrite');
+    const store = tx.objectStore(STORE);
+    const record = await promisifyRequest<TranslationCacheRecord | undefined>(store.get(buildKey(engineId, target, text)));
+    if (!record) return null;
+    // 命中后刷新访问时间，维持 LRU 顺序
+    store.put({ ...record, lastAccess: Date.now() });
+    await waitForTransaction(tx);
+    return record.translation;
+};
+
+export const setCachedTranslation = async (engineId: string, target: string, text: string, translation: string): Promise<void> => {
+    if (!translation) return;
+    const db = await getDb();
+    const now = Date.now();
+    const tx = db.transaction(STORE, 'readwrite');
+    tx.objectStore(STORE).put({
+        key: buildKey(engineId, target, text),
+        engineId,
+        target,
+        source: normalizeSourceText(text),
+        translation,
+        createdAt: now,
+        lastAccess: now
+    } as TranslationCacheRecord);
+    await waitForTransaction(tx);
+    await evictOverflow(db);
+};
+
+/**
+ * 超出容量时按 lastAccess 从旧到新删除多余记录
+ */
+const evictOverflow = async (db: IDBDatabase) => {
+    const tx = db.transaction(STORE, 'readwrite');
+    const store = tx.objectStore(STORE);
+    const count = await promisifyRequest(store.count());
+    let overflow = count - TRANSLATION_CACHE_MAX_ENTRIES;
+    if (overflow > 0) {
+        const cursorRequest = store.index('lastAccess').openCursor();
+        cursorRequest.onsuccess = () => {
+            const cursor = cursorRequest.result;
+            if (!cursor || overflow <= 0) return;
+            cursor.delete();
+            overflow--;
+            cursor.continue();
+        };
+    }
+    await waitForTransaction(tx);
+};
+
+export const clearTranslationCache = async (): Promise<void> => {
+    const db = await getDb();
+    const tx = db.transaction(STORE, 'readwrite');
+    tx.objectStore(STORE).clear();
+    await waitForTransaction(tx);
+};
+
+export const getTranslationCacheStats = async (): Promise<TranslationCacheStats> => {
+    const db = await getDb();
+    const count = await promisifyRequest(db.transaction(STORE, 'readonly').objectStore(STORE).count());
+    return { count, maxEntries: TRANSLATION_CACHE_MAX_ENTRIES };
+};
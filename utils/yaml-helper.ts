@@ -26,10 +26,18 @@ const generalFields: FieldMetadata[] = [
     { key: 'translateWholePage', comment: '扫描范围：是否扫描整个页面（包括侧边栏等）', options: 'true | false' },
     { key: 'bilingualMode', comment: '双语对照：在段落末尾追加完整中文译文', options: 'true | false' },
     { key: 'aggressiveMode', comment: '激进匹配：启用词典API进行模糊匹配（消耗较大）', options: 'true | false' },
+    { key: 'learningLanguage', comment: '学习语言：翻译目标语言及词典/发音语种', options: 'en | ja | ko | fr | de | es' },
+    { key: 'englishAnnotation', comment: '英文标注：在英文段落中为词库单词标注中文释义（无需翻译引擎）', options: 'true | false' },
+    { key: 'subtitleMode', comment: '视频字幕模式：替换 YouTube/Bilibili/<track> 字幕中的词汇并记录视频时间点', options: 'true | false' },
     { key: 'matchInflections', comment: '词态匹配：是否自动识别单词变形', options: 'true | false' },
+    { key: 'maxConcurrentRequests', comment: '并发翻译：同时进行的段落翻译请求数', options: '1 - 6' },
+    { key: 'minGlossLength', comment: '释义最短长度：短于该长度的中文释义不参与匹配', options: '1 - 4' },
     { key: 'ttsSpeed', comment: '朗读速度：TTS 播放倍速', options: '0.25 - 3.0' },
     { key: 'blacklist', comment: '黑名单域名列表', type: 'array' },
-    { key: 'whitelist', comment: '白名单域名列表', type: 'array' }
+    { key: 'whitelist', comment: '白名单域名列表', type: 'array' },
+    { key: 'whitelistOnly', comment: '仅白名单模式：只翻译白名单及站点配置中列出的网站', options: 'true | false' },
+    { key: 'siteProfiles', comment: '站点配置：按域名/通配路径覆盖全局设置', type: 'array' },
+    { key: 'contentRules', comment: '正文提取规则：按域名指定正文/排除区域的 CSS 选择器', type: 'array' }
 ];
 
 // 2. Visual Styles
@@ -40,6 +48,7 @@ const styleFields: FieldMetadata[] = [
     { key: 'layoutMode', comment: '布局模式', options: 'horizontal | vertical' },
     { key: 'densityMode', comment: '密度模式', options: 'count | percent' },
     { key: 'densityValue', comment: '密度值', type: 'number' },
+    { key: 'densityStrategy', comment: '密度策略', options: 'first | spread | random | importance' },
     { key: 'originalText', comment: '原文样式配置', type: 'object' },
     { key: 'horizontal', comment: '水平布局详细配置', type: 'object' },
     { key: 'vertical', comment: '垂直布局详细配置', type: 'object' }
@@ -58,6 +67,8 @@ const interactionFields: FieldMetadata[] = [
     { key: 'autoPronounce', comment: '自动朗读', options: 'true | false' },
     { key: 'mainTrigger', comment: '主触发方式配置', type: 'object' },
     { key: 'quickAddTrigger', comment: '快速添加触发配置', type: 'object' },
+    { key: 'selectionLookup', comment: '划词查词按钮', options: 'true | false' },
+    { key: 'keyboardNavigation', comment: '键盘导航：开关及快捷键 (next/prev/toggleBubble/pronounce/promote/demote)', type: 'object' },
     { key: 'onlineDictUrl', comment: '在线词典链接模板', type: 'string' },
 ];
 